@@ -2,31 +2,129 @@
 // File: backend/ambientStream.js
 
 import corti from './cortiClient.js';
+import { logger } from './logger.js';
+import { recordAudit } from './auditLog.js';
+import { budgetStatus, createBudgetTracker, getDailyUsage, recordUsage } from './usageLedger.js';
+import { buildStreamConfiguration, streamHeaderFor, toCortiConfiguration } from './streamConfig.js';
+import { streamUploadedFile } from './audioUpload.js';
+import { createAudioArchive } from './audioArchive.js';
+import { buildEncounter, toStoredEncounter } from './encounter.js';
+import {
+  PROTOCOL_VERSION,
+  encodeMessage,
+  parseClientMessage,
+  validateServerMessage
+} from '../shared/wsProtocol.ts';
+import {
+  createSession,
+  updateSession,
+  appendTranscript,
+  upsertFacts,
+  addUsage,
+  endSession
+} from './sessionStore.js';
 
-export async function handleAmbientConnection(clientWs) {
-  console.log('\n========================================');
-  console.log('Ambient Documentation Client Connected');
-  console.log('========================================');
-  
+// The client sends `start` with the encounter as soon as it connects
+const START_TIMEOUT_MS = 15000;
+const CONFIG_TIMEOUT_MS = 15000;
+// How long a stream stays open after its client drops, waiting for a resume
+const RESUME_WINDOW_MS = 60000;
+// Acknowledge received audio every N chunks so the client can trim its buffer
+const ACK_EVERY_CHUNKS = 5;
+// Results kept for a detached client, delivered when it resumes
+const MAX_OUTBOX_MESSAGES = 1000;
+// A paused session is ended if the client doesn't resume within this time
+const PAUSE_TIMEOUT_MS = 20 * 60 * 1000;
+
+// Stream sessions by interactionId, kept while a client is attached or may resume
+const activeSessions = new Map();
+
+// True while the interaction's stream is open or waiting for a resume
+export const isSessionActive = (interactionId) => activeSessions.has(interactionId);
+
+// `user` is the authenticated user opening the socket; they own the interaction
+export function handleAmbientConnection(clientWs, { user, resumeId = null, lastAckedSeq = 0 }) {
+  if (resumeId) {
+    resumeSession(clientWs, user, resumeId, Number(lastAckedSeq) || 0);
+    return;
+  }
+
+  logger.info('Ambient client connected', { userId: user.id });
+
+  const session = createStreamSession(user);
+  session.attach(clientWs);
+  session.open();
+}
+
+function resumeSession(clientWs, user, interactionId, lastAckedSeq) {
+  const log = logger.child({ interactionId, userId: user.id });
+  log.info('Ambient client resuming', { lastAckedSeq });
+
+  const session = activeSessions.get(interactionId);
+  // Another user's session is reported the same way as a missing one
+  if (session && session.owner !== user.id) {
+    recordAudit({ actor: user, action: 'interaction.access', interactionId, outcome: 'denied', details: { via: 'resume' } });
+  }
+  if (!session || session.owner !== user.id) {
+    log.warn('No resumable session found');
+    clientWs.send(encodeServerMessage({ type: 'resume_failed', reason: 'Session not found or expired' }));
+    clientWs.close();
+    return;
+  }
+
+  session.resume(clientWs, lastAckedSeq);
+}
+
+function createStreamSession(user) {
+  // Gains the interactionId once the interaction is created
+  let log = logger.child({ userId: user.id });
+  let client = null;
   let streamSocket = null;
   let interactionId = null;
+  let configuration = null;
+  let pendingConfiguration = null;
+  let isStartReceived = false;
+  let isConfigReceived = false;
   let isConfigAccepted = false;
   let isStreamClosed = false;
+  let isConnecting = false;
+  let isEndRequested = false;
+  let isEnded = false;
+  let isDisposed = false;
   let audioQueue = [];
   let audioChunkCount = 0;
-  let isClientConnected = true;
+  let receivedSeq = 0;
+  // First audio chunk carries the container header (or, for raw PCM, a
+  // generated WAV header); replayed if /stream is re-opened
+  let headerChunk = null;
+  // Encrypted copy of the client's audio for playback; null while archiving is off
+  let archive = null;
+  let outbox = [];
+  let startTimer = null;
+  let configTimer = null;
+  let detachTimer = null;
+  let pauseTimer = null;
+  let isPaused = false;
+  let isUploadActive = false;
+  const budget = createBudgetTracker(user.id);
 
-  // Helper to safely send to client
+  // Helper to safely send to client; buffered while the client is detached
   const sendToClient = (data) => {
-    if (isClientConnected && clientWs.readyState === 1) {
+    if (client && client.readyState === 1) {
       try {
-        clientWs.send(JSON.stringify(data));
+        client.send(encodeServerMessage(data, log));
         return true;
       } catch (e) {
-        console.error('Error sending to client:', e.message);
+        log.error('Error sending to client', { err: e });
         return false;
       }
     }
+    if (!client && !isDisposed) {
+      outbox.push(data);
+      if (outbox.length > MAX_OUTBOX_MESSAGES) {
+        outbox.shift();
+      }
+    }
     return false;
   };
 
@@ -45,159 +143,490 @@ export async function handleAmbientConnection(clientWs) {
     } catch (e) {
       // Only log if it's not the expected "socket not open" error
       if (!e.message?.includes('not open')) {
-        console.error('Error closing stream:', e.message);
+        log.error('Error closing stream', { err: e });
       }
     }
     
     isStreamClosed = true;
   };
 
-  // Step 1: Create an interaction
-  try {
-    console.log('Creating interaction...');
-    const interaction = await corti.interactions.create({
-      encounter: {
-        identifier: `ambient-${Date.now()}`,
-        status: 'in-progress',
-        type: 'consultation',
-        title: 'Ambient Documentation Session'
-      }
-    });
-    interactionId = interaction.interactionId;
-    
-    console.log('\nBEGIN AMBIENT DOCUMENTATION SESSION');
-    console.log(`Interaction ID: ${interactionId}`);
-    console.log(`Started: ${new Date().toISOString()}\n`);
+  // `reason` is recorded in the audit trail: ended, client-disconnected or resume-expired
+  const dispose = (reason) => {
+    if (isDisposed) return;
+    isDisposed = true;
+    clearTimeout(startTimer);
+    clearTimeout(configTimer);
+    clearTimeout(detachTimer);
+    clearTimeout(pauseTimer);
+    closeStream();
+    archive?.close();
+    outbox = [];
+    if (interactionId) {
+      activeSessions.delete(interactionId);
+      endSession(interactionId);
+      completeInteraction(interactionId, log);
+      recordAudit({
+        actor: user,
+        action: 'session.end',
+        interactionId,
+        outcome: 'success',
+        details: { reason, audioChunks: audioChunkCount }
+      });
+    }
+  };
 
-    sendToClient({ type: 'session_started', interactionId });
+  // End the stream as if the client stopped; 'ended' follows once Corti is done
+  const endStream = () => {
+    isEndRequested = true;
+    if (!streamSocket || isStreamClosed) {
+      // Nothing left to wait for from Corti
+      sendToClient({ type: 'ended' });
+      return;
+    }
+    closeStream();
+  };
 
-  } catch (err) {
-    console.error('Failed to create interaction:', err);
-    sendToClient({ type: 'error', message: 'Failed to create interaction: ' + err.message });
-    clientWs.close();
-    return;
-  }
+  // Ask Corti for pending results; answered right away when nothing can be pending
+  const flushStream = () => {
+    if (streamSocket && !isStreamClosed && isConfigAccepted && typeof streamSocket.sendFlush === 'function') {
+      streamSocket.sendFlush({ type: 'flush' });
+    } else {
+      sendToClient({ type: 'flushed' });
+    }
+  };
 
-  // Step 2: Connect to /stream with configuration
-  try {
-    console.log('Connecting to Corti /stream service...');
-    
-    const configuration = {
-      transcription: {
-        primaryLanguage: 'en',
-        isDiarization: false,
-        isMultichannel: false,
-        participants: [{ channel: 0, role: 'multiple' }]
-      },
-      mode: {
-        type: 'facts',
-        outputLocale: 'en'
+  // The client stops sending audio while paused. The stream and interaction
+  // stay open; if Corti closes the stream meanwhile, audio after the resume
+  // re-opens it.
+  const pause = () => {
+    flushStream();
+    if (isPaused) return;
+    isPaused = true;
+    log.info('Session paused');
+    pauseTimer = setTimeout(() => {
+      log.info('Pause timeout expired, ending stream', { timeoutMs: PAUSE_TIMEOUT_MS });
+      sendToClient({ type: 'error', message: `Paused for more than ${PAUSE_TIMEOUT_MS / 60000} minutes; the session was ended` });
+      endStream();
+    }, PAUSE_TIMEOUT_MS);
+  };
+
+  const resumeAfterPause = () => {
+    if (!isPaused) return;
+    isPaused = false;
+    clearTimeout(pauseTimer);
+    log.info('Session resumed after pause');
+    if (streamSocket && isStreamClosed) {
+      reopenStream();
+    }
+  };
+
+  // Record stream usage and end the stream once a session or daily cap is hit
+  const handleUsage = (credits) => {
+    recordUsage({ user, interactionId, kind: 'stream', credits });
+    for (const { state, scope, used, limit } of budget.add(credits)) {
+      if (state === 'exceeded') {
+        log.warn('Credit budget exceeded, ending stream', { scope, used, limit });
+        sendToClient({ type: 'budget_exceeded', scope, used, limit });
+        endStream();
+        return;
       }
-    };
+      log.info('Credit budget warning', { scope, used, limit });
+      sendToClient({ type: 'budget_warning', scope, used, limit });
+    }
+  };
+
+  // Connect (or re-connect) to /stream with the client's validated configuration
+  const connectStream = async () => {
+    const isReopen = streamSocket !== null;
+    // On a re-opened stream the client is already capturing; don't restart it
+    const forwardToClient = isReopen
+      ? (data) => (data.type === 'CONFIG_ACCEPTED' ? false : sendToClient(data))
+      : sendToClient;
+    isConnecting = true;
+    try {
+      log.info('Connecting to Corti /stream', { configuration });
+      updateSession(interactionId, { configuration });
 
-    console.log('Stream configuration:', JSON.stringify(configuration, null, 2));
+      const socket = await corti.stream.connect({
+        id: interactionId,
+        configuration: toCortiConfiguration(configuration)
+      });
+      streamSocket = socket;
+      isStreamClosed = false;
+      isConfigAccepted = false;
 
-    streamSocket = await corti.stream.connect({
-      id: interactionId,
-      configuration
-    });
+      log.info('Stream socket created');
 
-    console.log('✓ Stream socket created');
-
-    // Subscribe to messages from Corti
-    streamSocket.on('message', (message) => {
-      console.log('Corti message:', message.type);
-      handleCortiMessage(message, sendToClient, () => {
-        isConfigAccepted = true;
-        console.log(`Flushing ${audioQueue.length} queued audio chunks`);
-        audioQueue.forEach(chunk => {
-          try {
-            streamSocket.sendAudio(chunk);
-          } catch (e) {
-            console.error('Error sending queued audio:', e.message);
-          }
+      // Subscribe to messages from Corti
+      socket.on('message', (message) => {
+        log.debug('Corti message', { type: message.type });
+        if (message.type === 'ENDED') {
+          isEnded = true;
+          archive?.close();
+        }
+        handleCortiMessage(message, interactionId, log, forwardToClient, handleUsage, () => {
+          isConfigAccepted = true;
+          log.info('Flushing queued audio chunks', { count: audioQueue.length });
+          audioQueue.forEach(chunk => {
+            try {
+              socket.sendAudio(chunk);
+            } catch (e) {
+              log.error('Error sending queued audio', { err: e });
+            }
+          });
+          audioQueue = [];
         });
-        audioQueue = [];
       });
-    });
 
-    streamSocket.on('error', (error) => {
-      console.error('Stream socket error:', error);
-      sendToClient({ type: 'error', message: 'Stream error: ' + (error.message || JSON.stringify(error)) });
-    });
+      socket.on('error', (error) => {
+        log.error('Stream socket error', { err: error });
+        sendToClient({ type: 'error', message: 'Stream error: ' + (error.message || JSON.stringify(error)) });
+      });
 
-    streamSocket.on('close', () => {
-      console.log('Stream socket closed');
-      isConfigAccepted = false;
-      isStreamClosed = true;
-    });
+      socket.on('close', () => {
+        // Ignore late events from a socket that has since been replaced
+        if (socket !== streamSocket) return;
+        log.info('Stream socket closed');
+        isConfigAccepted = false;
+        isStreamClosed = true;
+      });
 
-  } catch (err) {
-    console.error('Failed to connect to /stream:', err);
-    sendToClient({ type: 'error', message: 'Failed to connect to stream: ' + err.message });
-    clientWs.close();
-    return;
-  }
+    } catch (err) {
+      log.error('Failed to connect to /stream', { err });
+      sendToClient({ type: 'error', message: 'Failed to connect to stream: ' + err.message });
+      client?.close();
+    } finally {
+      isConnecting = false;
+    }
+  };
 
-  // Step 3: Handle messages from client
-  clientWs.on('message', async (data) => {
-    if (!streamSocket || isStreamClosed) {
-      console.log('No active stream socket available');
+  // Re-open /stream for the same interaction after it closed unexpectedly
+  const reopenStream = () => {
+    if (isConnecting || isEndRequested || isEnded || !configuration) return;
+    log.info('Re-opening /stream');
+    if (headerChunk) {
+      audioQueue.unshift(headerChunk);
+    }
+    connectStream();
+  };
+
+  const handleConfigMessage = (msg) => {
+    if (isConfigReceived) {
+      sendToClient({ type: 'CONFIG_DENIED', reason: 'Configuration already received' });
       return;
     }
 
-    const isJson = typeof data === 'string' || 
-                   (Buffer.isBuffer(data) && data.length > 0 && data[0] === 123);
+    const { configuration: validated, error } = buildStreamConfiguration(msg.configuration);
+    if (error) {
+      // The client may correct its settings and send the config again
+      log.warn('Client configuration rejected', { reason: error });
+      sendToClient({ type: 'CONFIG_DENIED', reason: error });
+      return;
+    }
 
-    if (isJson) {
-      try {
-        const msg = JSON.parse(data.toString());
-        console.log('Client control message:', msg.type);
-        
-        switch (msg.type) {
-          case 'flush':
-            if (typeof streamSocket.sendFlush === 'function') {
-              streamSocket.sendFlush({ type: 'flush' });
-            }
-            break;
-          case 'end':
-            console.log('Client requested end, sending to Corti stream...');
-            console.log(`Total audio chunks sent before end: ${audioChunkCount}`);
-            closeStream();
-            break;
-        }
-      } catch {
-        // Failed to parse as JSON, treat as audio
-        sendAudioChunk(streamSocket, data, isConfigAccepted, audioQueue, () => audioChunkCount++);
+    isConfigReceived = true;
+    clearTimeout(configTimer);
+
+    // Raw PCM gets its header up front; it goes out before the first frame
+    headerChunk = streamHeaderFor(validated.audio);
+    if (headerChunk) {
+      audioQueue.push(headerChunk);
+    }
+
+    if (interactionId) {
+      configuration = validated;
+      connectStream();
+    } else {
+      pendingConfiguration = validated;
+    }
+  };
+
+  // Replay an uploaded recording into the stream instead of live audio
+  const handleUploadMessage = async (msg) => {
+    if (!isConfigAccepted || isStreamClosed) {
+      sendToClient({ type: 'error', message: 'Stream is not ready for an upload' });
+      return;
+    }
+    if (isUploadActive) {
+      sendToClient({ type: 'error', message: 'An upload is already being processed' });
+      return;
+    }
+    if (configuration.audio.encoding === 'pcm16') {
+      // The recording brings its own container; a PCM header would corrupt it
+      sendToClient({ type: 'error', message: 'Uploads need a stream configured without raw PCM audio' });
+      return;
+    }
+
+    isUploadActive = true;
+    log.info('Processing uploaded recording', { uploadId: msg.uploadId });
+    updateSession(interactionId, { source: 'upload' });
+
+    try {
+      const { sentBytes, cancelled } = await streamUploadedFile(msg.uploadId, {
+        user,
+        sendChunk: (chunk) => sendAudioChunk(streamSocket, chunk, isConfigAccepted, audioQueue, log, () => audioChunkCount++),
+        onProgress: (sentBytes, totalBytes) => sendToClient({ type: 'upload_progress', sentBytes, totalBytes }),
+        isCancelled: () => isStreamClosed || isDisposed
+      });
+      if (!cancelled) {
+        log.info('Upload fully sent, ending stream', { sentBytes });
+        isEndRequested = true;
+        closeStream();
       }
+    } catch (err) {
+      log.error('Failed to process upload', { err });
+      sendToClient({ type: 'error', message: 'Failed to process upload: ' + err.message });
+      isEndRequested = true;
+      closeStream();
+    } finally {
+      isUploadActive = false;
+    }
+  };
+
+  const handleAudio = (data) => {
+    if (isEndRequested || isEnded) return;
+    // Audio means the client is recording again, even if its resume got lost
+    if (isPaused) {
+      resumeAfterPause();
+    }
+    receivedSeq++;
+    if (!headerChunk) {
+      headerChunk = data;
+    }
+    archive ??= createAudioArchive(interactionId, configuration.audio);
+    archive?.write(data);
+
+    if (streamSocket && isStreamClosed) {
+      reopenStream();
+    }
+    if (!streamSocket || isStreamClosed) {
+      // Hold audio until the stream is (re)connected and configured
+      audioQueue.push(data);
     } else {
-      sendAudioChunk(streamSocket, data, isConfigAccepted, audioQueue, () => audioChunkCount++);
+      sendAudioChunk(streamSocket, data, isConfigAccepted, audioQueue, log, () => audioChunkCount++);
     }
-  });
 
-  // Step 4: Handle client disconnect
-  clientWs.on('close', () => {
-    console.log('\n========================================');
-    console.log('Ambient Client Disconnected');
-    console.log(`Interaction ID: ${interactionId}`);
-    console.log(`Total audio chunks sent: ${audioChunkCount}`);
-    console.log('========================================\n');
-    
-    isClientConnected = false;
-    closeStream();
-  });
+    if (receivedSeq % ACK_EVERY_CHUNKS === 0) {
+      sendToClient({ type: 'ack', seq: receivedSeq });
+    }
+  };
+
+  // Text frames are protocol messages, binary frames are audio
+  const handleClientMessage = (data, isBinary) => {
+    if (!isBinary) {
+      const result = parseClientMessage(data.toString());
+      if (!result.ok) {
+        log.warn('Invalid client message', { reason: result.error });
+        sendToClient({ type: 'error', message: `Invalid message: ${result.error}` });
+        return;
+      }
+
+      const msg = result.message;
+      log.info('Client control message', { type: msg.type });
+
+      switch (msg.type) {
+        case 'start':
+          handleStartMessage(msg);
+          break;
+        case 'config':
+          handleConfigMessage(msg);
+          break;
+        case 'upload':
+          handleUploadMessage(msg);
+          break;
+        case 'flush':
+          flushStream();
+          break;
+        case 'pause':
+          pause();
+          break;
+        case 'resume':
+          resumeAfterPause();
+          break;
+        case 'end':
+          log.info('Client requested end', { audioChunkCount });
+          clearTimeout(pauseTimer);
+          endStream();
+          break;
+      }
+      return;
+    }
+
+    if (!streamSocket && !configuration) {
+      log.warn('Audio received before configuration, dropped');
+      return;
+    }
+    handleAudio(data);
+  };
+
+  const handleClientClose = (ws) => {
+    // A resumed connection may already have replaced this one
+    if (ws !== client) return;
+    client = null;
+
+    log.info('Ambient client disconnected', { audioChunkCount });
+
+    if (!interactionId || isEndRequested || isEnded) {
+      dispose(isEndRequested || isEnded ? 'ended' : 'client-disconnected');
+      return;
+    }
+
+    // Keep the stream alive so the client can resume the same interaction
+    log.info('Waiting for client to resume', { resumeWindowMs: RESUME_WINDOW_MS });
+    detachTimer = setTimeout(() => {
+      log.info('Resume window expired');
+      dispose('resume-expired');
+    }, RESUME_WINDOW_MS);
+  };
+
+  const attach = (ws) => {
+    client = ws;
+    clearTimeout(detachTimer);
+
+    ws.on('message', (data, isBinary) => handleClientMessage(data, isBinary));
+    ws.on('close', () => handleClientClose(ws));
+    ws.on('error', (err) => {
+      log.error('Client WebSocket error', { err });
+    });
+  };
+
+  const resume = (ws, lastAckedSeq) => {
+    if (client && client !== ws) {
+      // The old connection hasn't noticed it dropped yet
+      const stale = client;
+      client = null;
+      stale.terminate();
+    }
+
+    attach(ws);
+    log.info('Resumed', { receivedSeq, lastAckedSeq });
+    sendToClient({ type: 'resumed', interactionId, lastSeq: receivedSeq });
 
-  clientWs.on('error', (err) => {
-    console.error('Client WebSocket error:', err);
-    isClientConnected = false;
-  });
+    const pending = outbox;
+    outbox = [];
+    pending.forEach(sendToClient);
+
+    if (streamSocket && isStreamClosed) {
+      reopenStream();
+    }
+  };
+
+  // A new connection waits for `start`, unless the user is over their daily cap
+  const open = () => {
+    const daily = budgetStatus('daily', getDailyUsage(user.id));
+    if (daily?.state === 'exceeded') {
+      log.warn('Daily credit budget exceeded, session refused', daily);
+      sendToClient({ type: 'budget_exceeded', scope: 'daily', used: daily.used, limit: daily.limit });
+      client?.close();
+      return;
+    }
+
+    startTimer = setTimeout(() => {
+      log.warn('No start message received from client', { timeoutMs: START_TIMEOUT_MS });
+      sendToClient({ type: 'error', message: 'No start message received' });
+      client?.close();
+    }, START_TIMEOUT_MS);
+  };
+
+  const handleStartMessage = (msg) => {
+    if (isStartReceived) {
+      sendToClient({ type: 'error', message: 'Session already started' });
+      return;
+    }
+
+    const { encounter, patient, error } = buildEncounter(msg.encounter);
+    if (error) {
+      // The client may correct the encounter and send start again
+      log.warn('Client encounter rejected', { reason: error });
+      sendToClient({ type: 'error', message: `Invalid encounter: ${error}` });
+      return;
+    }
+
+    isStartReceived = true;
+    clearTimeout(startTimer);
+    start(encounter, patient);
+  };
+
+  const start = async (encounter, patient) => {
+    // Step 1: Create an interaction for the encounter
+    try {
+      log.info('Creating interaction', { encounterType: encounter.type, hasPatient: !!patient });
+      const interaction = await corti.interactions.create({
+        encounter,
+        ...(patient && { patient })
+      });
+      if (isDisposed) {
+        log.info('Client left before the interaction was ready', { interactionId: interaction.interactionId });
+        recordAudit({
+          actor: user,
+          action: 'session.start',
+          interactionId: interaction.interactionId,
+          outcome: 'failure',
+          details: { reason: 'client-disconnected' }
+        });
+        return;
+      }
+      interactionId = interaction.interactionId;
+      log = log.child({ interactionId });
+      createSession(interactionId, { owner: user.id, encounter: toStoredEncounter(encounter, patient) });
+      activeSessions.set(interactionId, session);
+      recordAudit({ actor: user, action: 'session.start', interactionId, outcome: 'success' });
+
+      log.info('Ambient documentation session started');
+
+      sendToClient({ type: 'session_started', interactionId });
+
+    } catch (err) {
+      log.error('Failed to create interaction', { err });
+      recordAudit({ actor: user, action: 'session.start', outcome: 'failure', details: { error: err.message } });
+      sendToClient({ type: 'error', message: 'Failed to create interaction: ' + err.message });
+      client?.close();
+      return;
+    }
+
+    // Step 2: Connect to /stream once the client has sent its configuration
+    if (pendingConfiguration) {
+      configuration = pendingConfiguration;
+      await connectStream();
+    } else if (!isConfigReceived) {
+      configTimer = setTimeout(() => {
+        log.warn('No stream configuration received from client', { timeoutMs: CONFIG_TIMEOUT_MS });
+        sendToClient({ type: 'CONFIG_DENIED', reason: 'No configuration received' });
+        client?.close();
+      }, CONFIG_TIMEOUT_MS);
+    }
+  };
+
+  const session = { owner: user.id, attach, resume, open };
+  return session;
+}
+
+// Mark the interaction completed once its session is over, however it ended
+async function completeInteraction(interactionId, log) {
+  try {
+    await corti.interactions.update(interactionId, { encounter: { status: 'completed' } });
+    log.info('Interaction marked completed');
+  } catch (err) {
+    log.error('Failed to mark interaction completed', { err });
+  }
+}
+
+// Serialize an outgoing message; anything outside the shared protocol is
+// reported to the client as an error instead of being sent
+function encodeServerMessage(message, log = logger) {
+  const result = validateServerMessage({ ...message, version: PROTOCOL_VERSION });
+  if (!result.ok) {
+    log.error('Protocol violation in outgoing message', { reason: result.error, type: message?.type });
+    return encodeMessage({ type: 'error', message: `Server protocol error: ${result.error}` });
+  }
+  return encodeMessage(message);
 }
 
-function sendAudioChunk(socket, data, isReady, queue, onSent) {
+function sendAudioChunk(socket, data, isReady, queue, log, onSent) {
   if (!isReady) {
     queue.push(data);
     if (queue.length % 10 === 0) {
-      console.log(`Queued ${queue.length} audio chunks waiting for CONFIG_ACCEPTED`);
+      log.debug('Audio queued waiting for CONFIG_ACCEPTED', { queued: queue.length });
     }
     return;
   }
@@ -206,14 +635,14 @@ function sendAudioChunk(socket, data, isReady, queue, onSent) {
     socket.sendAudio(data);
     onSent();
   } catch (err) {
-    console.error('Error sending audio:', err.message);
+    log.error('Error sending audio', { err });
   }
 }
 
-function handleCortiMessage(msg, sendToClient, onConfigAccepted) {
+function handleCortiMessage(msg, interactionId, log, sendToClient, onUsage, onConfigAccepted) {
   switch (msg.type) {
     case 'CONFIG_ACCEPTED':
-      console.log('✓ Stream configuration accepted');
+      log.info('Stream configuration accepted');
       sendToClient({ type: 'CONFIG_ACCEPTED' });
       onConfigAccepted();
       break;
@@ -223,78 +652,81 @@ function handleCortiMessage(msg, sendToClient, onConfigAccepted) {
     case 'CONFIG_NOT_PROVIDED':
     case 'CONFIG_ALREADY_RECEIVED':
     case 'CONFIG_TIMEOUT':
-      console.error('Configuration error:', msg.type, msg.reason);
-      sendToClient({ type: 'error', message: `${msg.type}: ${msg.reason || 'Unknown reason'}` });
+      log.error('Stream configuration denied', { type: msg.type, reason: msg.reason });
+      sendToClient({
+        type: 'CONFIG_DENIED',
+        reason: msg.type === 'CONFIG_DENIED'
+          ? msg.reason || 'Unknown reason'
+          : `${msg.type}: ${msg.reason || 'Unknown reason'}`
+      });
       break;
 
     case 'transcript':
-      console.log('\nTRANSCRIPT DATA:', JSON.stringify(msg, null, 2));
-      
       if (msg.data && Array.isArray(msg.data)) {
         msg.data.forEach(segment => {
-          console.log(`  Segment: "${segment.transcript}" (final: ${segment.final})`);
-          sendToClient({
-            type: 'transcript',
-            data: {
-              id: segment.id + '-' + (segment.time?.start || Math.random()),
-              text: segment.transcript,
-              isFinal: segment.final,
-              speakerId: segment.speakerId,
-              channel: segment.participant?.channel,
-              start: segment.time?.start,
-              end: segment.time?.end
-            }
-          });
+          const data = {
+            id: segment.id + '-' + (segment.time?.start || Math.random()),
+            text: segment.transcript,
+            isFinal: segment.final,
+            speakerId: segment.speakerId ?? undefined,
+            channel: segment.participant?.channel ?? undefined,
+            start: segment.time?.start ?? undefined,
+            end: segment.time?.end ?? undefined
+          };
+          if (data.isFinal) {
+            appendTranscript(interactionId, data);
+          }
+          sendToClient({ type: 'transcript', data });
+          log.debug('Transcript segment', { segmentId: data.id, isFinal: data.isFinal, text: data.text });
         });
       }
       break;
 
     case 'facts':
-      console.log('\nFACTS DATA:', JSON.stringify(msg, null, 2));
-      
       const factsArray = msg.fact || msg.facts || msg.data;
       if (factsArray && Array.isArray(factsArray)) {
         const facts = factsArray.map(f => ({
           id: f.id,
           text: f.text,
           group: f.group,
-          groupId: f.groupId,
-          isDiscarded: f.isDiscarded,
-          source: f.source,
-          createdAt: f.createdAt,
-          updatedAt: f.updatedAt
+          groupId: f.groupId ?? undefined,
+          isDiscarded: f.isDiscarded ?? undefined,
+          source: f.source ?? undefined,
+          createdAt: f.createdAt ?? undefined,
+          updatedAt: f.updatedAt ?? undefined
         }));
         
-        console.log(`Received ${facts.length} facts:`);
-        facts.forEach(f => {
-          console.log(`  [${f.group}] "${f.text}" (discarded: ${f.isDiscarded})`);
-        });
-        
+        log.info('Facts received', { count: facts.length, groups: [...new Set(facts.map(f => f.group))] });
+        log.debug('Facts detail', { facts });
+
+        upsertFacts(interactionId, facts);
         sendToClient({ type: 'facts', facts: facts });
       }
       break;
 
     case 'flushed':
-      console.log('Audio buffer flushed');
+      log.info('Audio buffer flushed');
       sendToClient({ type: 'flushed' });
       break;
 
     case 'usage':
-      console.log('Usage credits:', msg.credits);
+      log.info('Usage', { credits: msg.credits });
+      addUsage(interactionId, msg.credits);
       sendToClient({ type: 'usage', credits: msg.credits });
+      onUsage(msg.credits);
       break;
 
     case 'ENDED':
-      console.log('✓ Stream ended by Corti server');
+      log.info('Stream ended by Corti');
       sendToClient({ type: 'ended' });
       break;
 
     case 'error':
-      console.error('Stream error:', msg.error || msg);
+      log.error('Stream error', { error: msg.error });
       sendToClient({ type: 'error', message: msg.error?.details || msg.error?.title || 'Stream error' });
       break;
 
     default:
-      console.log('Unhandled message type:', msg.type, msg);
+      log.warn('Unhandled Corti message type', { type: msg.type });
   }
 }
\ No newline at end of file
@@ -0,0 +1,245 @@
+// Audio Archive - Encrypted copies of live session audio for playback
+// File: backend/audioArchive.js
+//
+// Off unless AUDIO_ARCHIVE=1 and AUDIO_ARCHIVE_KEY (32 bytes as 64 hex
+// characters) are set; without a valid key nothing is stored. The audio each
+// client sends is kept in uploads/archive as <interactionId>.audio, next to a
+// <interactionId>.json with its format. The audio is cut into 64 KiB blocks,
+// each sealed separately with AES-256-GCM, so a byte range can be served by
+// decrypting only the blocks it covers. Archives older than
+// AUDIO_RETENTION_DAYS (default 30) are deleted by an hourly sweep.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { UPLOADS_DIR } from './audioUpload.js';
+import { wavHeader } from './streamConfig.js';
+import { logger } from './logger.js';
+
+export const ARCHIVE_DIR = path.join(UPLOADS_DIR, 'archive');
+
+const BLOCK_BYTES = 64 * 1024;
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const SEALED_OVERHEAD = NONCE_BYTES + TAG_BYTES;
+const WAV_HEADER_BYTES = 44;
+const DEFAULT_RETENTION_DAYS = 30;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+const MIME_TYPES = {
+  'webm-opus': 'audio/webm',
+  pcm16: 'audio/wav'
+};
+
+let key = null;
+let retentionDays = DEFAULT_RETENTION_DAYS;
+
+// Write queues of archives still being recorded, so reads see every sealed block
+const pendingWrites = new Map();
+
+const archivePaths = (interactionId) => {
+  if (!ID_PATTERN.test(interactionId || '')) {
+    throw new Error(`Invalid interaction ID: ${interactionId}`);
+  }
+  return {
+    audio: path.join(ARCHIVE_DIR, `${interactionId}.audio`),
+    meta: path.join(ARCHIVE_DIR, `${interactionId}.json`)
+  };
+};
+
+// Blocks are bound to their interaction and position so they can't be swapped
+const blockAad = (interactionId, index) => Buffer.from(`${interactionId}:${index}`);
+
+const seal = (interactionId, index, plaintext) => {
+  const nonce = crypto.randomBytes(NONCE_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, nonce);
+  cipher.setAAD(blockAad(interactionId, index));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([nonce, ciphertext, cipher.getAuthTag()]);
+};
+
+const open = (interactionId, index, sealed) => {
+  const nonce = sealed.subarray(0, NONCE_BYTES);
+  const tag = sealed.subarray(sealed.length - TAG_BYTES);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, nonce);
+  decipher.setAAD(blockAad(interactionId, index));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(NONCE_BYTES, sealed.length - TAG_BYTES)), decipher.final()]);
+};
+
+// Plaintext size from the file size; only the last block may be short
+const plaintextSize = (fileBytes) => {
+  const fullBlocks = Math.floor(fileBytes / (BLOCK_BYTES + SEALED_OVERHEAD));
+  const rest = fileBytes - fullBlocks * (BLOCK_BYTES + SEALED_OVERHEAD);
+  return fullBlocks * BLOCK_BYTES + Math.max(rest - SEALED_OVERHEAD, 0);
+};
+
+export const isArchiveEnabled = () => key !== null;
+
+// Read the settings and start the retention sweep; call once at startup
+export function initAudioArchive() {
+  if (process.env.AUDIO_ARCHIVE !== '1') return;
+
+  const rawKey = process.env.AUDIO_ARCHIVE_KEY || '';
+  if (!/^[0-9a-fA-F]{64}$/.test(rawKey)) {
+    logger.error('AUDIO_ARCHIVE_KEY must be 64 hex characters; audio archiving is disabled');
+    return;
+  }
+  key = Buffer.from(rawKey, 'hex');
+
+  const days = Number(process.env.AUDIO_RETENTION_DAYS || DEFAULT_RETENTION_DAYS);
+  if (!Number.isFinite(days) || days <= 0) {
+    logger.warn('Ignoring invalid AUDIO_RETENTION_DAYS', { value: process.env.AUDIO_RETENTION_DAYS });
+  } else {
+    retentionDays = days;
+  }
+
+  fs.mkdirSync(ARCHIVE_DIR, { recursive: true });
+  logger.info('Audio archiving enabled', { retentionDays });
+
+  sweepExpiredArchives();
+  setInterval(sweepExpiredArchives, SWEEP_INTERVAL_MS).unref();
+}
+
+// Start archiving one session's audio in the declared format. Returns null
+// when archiving is off. write() takes client chunks as they arrive; close()
+// seals the last partial block.
+export function createAudioArchive(interactionId, audio) {
+  if (!isArchiveEnabled()) return null;
+
+  const paths = archivePaths(interactionId);
+  const meta = { interactionId, audio, createdAt: new Date().toISOString() };
+  let blockIndex = 0;
+  let buffered = [];
+  let bufferedBytes = 0;
+  let isClosed = false;
+  let queue = Promise.resolve();
+
+  const enqueue = (write) => {
+    queue = queue
+      .then(write)
+      .catch(err => logger.error('Failed to write archived audio', { interactionId, err }));
+    pendingWrites.set(interactionId, queue);
+  };
+
+  const append = (plaintext) => {
+    const sealed = seal(interactionId, blockIndex++, plaintext);
+    enqueue(() => fs.promises.appendFile(paths.audio, sealed));
+  };
+
+  enqueue(async () => {
+    await fs.promises.writeFile(paths.meta, JSON.stringify(meta, null, 2));
+    await fs.promises.writeFile(paths.audio, Buffer.alloc(0));
+  });
+
+  return {
+    write(chunk) {
+      if (isClosed) return;
+      buffered.push(chunk);
+      bufferedBytes += chunk.length;
+      if (bufferedBytes < BLOCK_BYTES) return;
+
+      let pending = Buffer.concat(buffered);
+      while (pending.length >= BLOCK_BYTES) {
+        append(pending.subarray(0, BLOCK_BYTES));
+        pending = pending.subarray(BLOCK_BYTES);
+      }
+      buffered = [pending];
+      bufferedBytes = pending.length;
+    },
+
+    close() {
+      if (isClosed) return;
+      isClosed = true;
+      if (bufferedBytes > 0) {
+        append(Buffer.concat(buffered));
+      }
+      buffered = [];
+      const done = queue;
+      done.then(() => {
+        if (pendingWrites.get(interactionId) === done) {
+          pendingWrites.delete(interactionId);
+        }
+      });
+    }
+  };
+}
+
+// The archived audio of an interaction as a playable file, or null. PCM is
+// served as WAV: the header is generated, so it is not part of the stored bytes.
+export async function getArchivedAudio(interactionId) {
+  if (!isArchiveEnabled()) return null;
+
+  const paths = archivePaths(interactionId);
+  await pendingWrites.get(interactionId);
+  if (!fs.existsSync(paths.meta) || !fs.existsSync(paths.audio)) return null;
+
+  const meta = JSON.parse(await fs.promises.readFile(paths.meta, 'utf8'));
+  const storedBytes = plaintextSize((await fs.promises.stat(paths.audio)).size);
+  const header = meta.audio?.encoding === 'pcm16' ? wavHeader(meta.audio, storedBytes) : null;
+  const headerBytes = header ? WAV_HEADER_BYTES : 0;
+
+  // Decrypt the blocks covering stored bytes [start, end]
+  async function* readStored(start, end) {
+    const handle = await fs.promises.open(paths.audio, 'r');
+    try {
+      for (let index = Math.floor(start / BLOCK_BYTES); index <= Math.floor(end / BLOCK_BYTES); index++) {
+        const sealed = Buffer.alloc(BLOCK_BYTES + SEALED_OVERHEAD);
+        const { bytesRead } = await handle.read(sealed, 0, sealed.length, index * sealed.length);
+        const block = open(interactionId, index, sealed.subarray(0, bytesRead));
+        const blockStart = index * BLOCK_BYTES;
+        yield block.subarray(Math.max(start - blockStart, 0), end - blockStart + 1);
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async function* read(start, end) {
+    if (header && start < headerBytes) {
+      yield header.subarray(start, Math.min(end + 1, headerBytes));
+    }
+    if (end >= headerBytes) {
+      yield* readStored(Math.max(start - headerBytes, 0), end - headerBytes);
+    }
+  }
+
+  return {
+    mimeType: MIME_TYPES[meta.audio?.encoding] || 'application/octet-stream',
+    size: headerBytes + storedBytes,
+    createdAt: meta.createdAt,
+    // Inclusive byte range, like HTTP ranges
+    createReadStream: (start, end) => Readable.from(read(start, end))
+  };
+}
+
+export async function deleteAudioArchive(interactionId) {
+  const paths = archivePaths(interactionId);
+  await pendingWrites.get(interactionId);
+  await Promise.all([paths.audio, paths.meta].map(file =>
+    fs.promises.rm(file, { force: true })
+  ));
+}
+
+async function sweepExpiredArchives() {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  try {
+    const files = (await fs.promises.readdir(ARCHIVE_DIR)).filter(f => f.endsWith('.json'));
+    for (const file of files) {
+      const interactionId = file.slice(0, -'.json'.length);
+      try {
+        const meta = JSON.parse(await fs.promises.readFile(path.join(ARCHIVE_DIR, file), 'utf8'));
+        if (meta.createdAt < cutoff && !pendingWrites.has(interactionId)) {
+          await deleteAudioArchive(interactionId);
+          logger.info('Deleted expired audio archive', { interactionId, createdAt: meta.createdAt });
+        }
+      } catch (err) {
+        logger.error('Failed to check audio archive retention', { interactionId, err });
+      }
+    }
+  } catch (err) {
+    logger.error('Audio archive retention sweep failed', { err });
+  }
+}
@@ -0,0 +1,135 @@
+// Audio Upload - Batch processing of recorded files through /stream
+// File: backend/audioUpload.js
+//
+// Uploads are plaintext patient audio, so they only live until they are
+// replayed. Each one belongs to the user who uploaded it; files never replayed
+// within UPLOAD_TTL_MS are deleted by a sweep.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import multer from 'multer';
+import { logger } from './logger.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const UPLOADS_DIR = path.join(__dirname, 'uploads');
+
+const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+const ALLOWED_EXTENSIONS = ['.wav', '.mp3', '.webm', '.ogg', '.oga', '.opus'];
+const ALLOWED_MIME_TYPES = [
+  'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave',
+  'audio/mpeg', 'audio/mp3',
+  'audio/webm', 'video/webm',
+  'audio/ogg', 'application/ogg', 'audio/opus',
+  'application/octet-stream'
+];
+
+// Pacing for replaying a file into /stream: CHUNK_BYTES every CHUNK_INTERVAL_MS
+const CHUNK_BYTES = 16 * 1024;
+const CHUNK_INTERVAL_MS = 100;
+
+// multer names stored files with 16 random bytes in hex
+const UPLOAD_ID_PATTERN = /^[a-f0-9]{32}$/;
+
+const UPLOAD_TTL_MS = 30 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// Uploader of each stored file, by upload ID. Lost on restart, which leaves
+// older files unclaimed until the sweep deletes them.
+const owners = new Map();
+// Uploads being replayed; skipped by the sweep however old they are
+const activeUploads = new Set();
+
+// Multipart handler for a single `audio` file field
+export const uploadAudio = multer({
+  dest: UPLOADS_DIR,
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  fileFilter: (req, file, cb) => {
+    const ext = path.extname(file.originalname || '').toLowerCase();
+    if (!ALLOWED_EXTENSIONS.includes(ext) || !ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+      return cb(new Error(`Unsupported audio file: ${file.originalname}. Use WAV, MP3, WebM or Ogg.`));
+    }
+    cb(null, true);
+  }
+}).single('audio');
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Create the uploads directory and start the sweep; call once at startup
+export function initUploads() {
+  fs.mkdirSync(UPLOADS_DIR, { recursive: true });
+  sweepExpiredUploads();
+  setInterval(sweepExpiredUploads, SWEEP_INTERVAL_MS).unref();
+}
+
+// Remember who uploaded a file; only they can replay it
+export const registerUpload = (uploadId, user) => {
+  owners.set(uploadId, user.id);
+};
+
+// Read an uploaded file and hand it to sendChunk in paced chunks, reporting
+// progress as it goes. The file is deleted once processing finishes or fails.
+export async function streamUploadedFile(uploadId, { user, sendChunk, onProgress, isCancelled }) {
+  if (!UPLOAD_ID_PATTERN.test(uploadId || '')) {
+    throw new Error('Invalid upload ID');
+  }
+
+  const filePath = path.join(UPLOADS_DIR, uploadId);
+  const owner = owners.get(uploadId);
+  if (owner && owner !== user.id) {
+    logger.warn('Upload requested by another user', { uploadId, userId: user.id });
+  }
+  // Another user's upload, or one already being replayed, is reported like a missing one
+  if (owner !== user.id || activeUploads.has(uploadId) || !fs.existsSync(filePath)) {
+    throw new Error('Upload not found');
+  }
+  activeUploads.add(uploadId);
+
+  const totalBytes = fs.statSync(filePath).size;
+  let sentBytes = 0;
+
+  try {
+    const stream = fs.createReadStream(filePath, { highWaterMark: CHUNK_BYTES });
+    for await (const chunk of stream) {
+      if (isCancelled()) {
+        stream.destroy();
+        logger.info('Upload cancelled', { uploadId, sentBytes, totalBytes });
+        return { sentBytes, totalBytes, cancelled: true };
+      }
+      sendChunk(chunk);
+      sentBytes += chunk.length;
+      onProgress(sentBytes, totalBytes);
+      await wait(CHUNK_INTERVAL_MS);
+    }
+    return { sentBytes, totalBytes, cancelled: false };
+  } finally {
+    activeUploads.delete(uploadId);
+    owners.delete(uploadId);
+    fs.promises.unlink(filePath).catch(err => {
+      logger.error('Failed to delete processed upload', { uploadId, err });
+    });
+  }
+}
+
+async function sweepExpiredUploads() {
+  const cutoff = Date.now() - UPLOAD_TTL_MS;
+  try {
+    const files = (await fs.promises.readdir(UPLOADS_DIR)).filter(f => UPLOAD_ID_PATTERN.test(f));
+    for (const uploadId of files) {
+      if (activeUploads.has(uploadId)) continue;
+      try {
+        const { mtimeMs } = await fs.promises.stat(path.join(UPLOADS_DIR, uploadId));
+        if (mtimeMs < cutoff) {
+          await fs.promises.rm(path.join(UPLOADS_DIR, uploadId), { force: true });
+          owners.delete(uploadId);
+          logger.info('Deleted unprocessed upload', { uploadId });
+        }
+      } catch (err) {
+        logger.error('Failed to check upload age', { uploadId, err });
+      }
+    }
+  } catch (err) {
+    logger.error('Upload sweep failed', { err });
+  }
+}
@@ -0,0 +1,232 @@
+// Audit Log - Append-only, hash-chained record of clinical data access
+// File: backend/auditLog.js
+//
+// Each entry is one JSON line in data/audit.log. An entry's hash covers its
+// own fields and the previous entry's hash. Editing, removing or reordering a
+// line therefore breaks every hash after it (see verifyAuditChain). Entries
+// carry IDs and outcomes only, never transcript, fact or document text.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { fileURLToPath } from 'url';
+import { logger } from './logger.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const AUDIT_FILE = path.join(__dirname, 'data', 'audit.log');
+
+export const AUDIT_ACTIONS = [
+  'session.start',
+  'session.end',
+  'document.list',
+  'document.create',
+  'document.view',
+  'document.export',
+  'document.update',
+  'document.delete',
+  'section.generate',
+  'interaction.access',
+  'interaction.view',
+  'interaction.update',
+  'interaction.delete',
+  'audio.access',
+  'audit.export'
+];
+
+export const AUDIT_OUTCOMES = ['success', 'failure', 'denied'];
+
+const GENESIS_HASH = '0'.repeat(64);
+const DEFAULT_QUERY_LIMIT = 500;
+
+// State of the chain as written to disk; only advanced once an append succeeds
+let lastSeq = 0;
+let lastHash = GENESIS_HASH;
+let fileBytes = 0;
+let writeQueue = Promise.resolve();
+// Set when a failed append could not be undone; the file may hold a partial
+// entry, so verification reports the chain as broken from there
+let writeFailure = null;
+
+fs.mkdirSync(path.dirname(AUDIT_FILE), { recursive: true });
+
+// Field order is fixed so the hash input is the same on every read
+const hashEntry = (entry) => crypto
+  .createHash('sha256')
+  .update(JSON.stringify([
+    entry.seq,
+    entry.time,
+    entry.actor,
+    entry.action,
+    entry.interactionId,
+    entry.documentId,
+    entry.outcome,
+    entry.details,
+    entry.prevHash
+  ]))
+  .digest('hex');
+
+// Pick up the chain where the file left off. A crash during appendFile can
+// leave a last line without its newline; that entry was never complete, so it
+// is cut off. Any other unreadable last line stops the server: the file has
+// been damaged or edited and the chain can't be continued.
+const restoreChain = () => {
+  if (!fs.existsSync(AUDIT_FILE)) return;
+  let content = fs.readFileSync(AUDIT_FILE, 'utf8');
+
+  if (content && !content.endsWith('\n')) {
+    const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+    fs.truncateSync(AUDIT_FILE, Buffer.byteLength(complete));
+    logger.warn('Audit log ended in a partial entry; truncated to the last complete line', {
+      removedBytes: Buffer.byteLength(content) - Buffer.byteLength(complete)
+    });
+    content = complete;
+  }
+
+  fileBytes = Buffer.byteLength(content);
+  const lines = content.split('\n').filter(Boolean);
+  if (lines.length === 0) return;
+  try {
+    const last = JSON.parse(lines[lines.length - 1]);
+    lastSeq = last.seq;
+    lastHash = last.hash;
+  } catch {
+    let previousSeq = 0;
+    try {
+      previousSeq = lines.length > 1 ? JSON.parse(lines[lines.length - 2]).seq : 0;
+    } catch {
+      previousSeq = 'unknown';
+    }
+    throw new Error(`Audit log ${AUDIT_FILE} is damaged after seq ${previousSeq}: its last line is not a valid entry. ` +
+      'Restore the file from a backup and check it with GET /api/audit/verify; never edit it.');
+  }
+};
+
+restoreChain();
+
+// Append an entry. Writes are queued in order and each entry is chained to the
+// last one on disk; a failed append is cut back off the file, so the next entry
+// takes its place. Resolves to the written entry, or null if it was lost.
+export function recordAudit({ actor, action, interactionId = null, documentId = null, outcome, details = null }) {
+  if (!AUDIT_ACTIONS.includes(action) || !AUDIT_OUTCOMES.includes(outcome)) {
+    throw new Error(`Invalid audit entry: ${action} / ${outcome}`);
+  }
+
+  const fields = {
+    time: new Date().toISOString(),
+    actor: actor ? { id: actor.id, username: actor.username } : null,
+    action,
+    interactionId,
+    documentId,
+    outcome,
+    details
+  };
+
+  const write = writeQueue.then(async () => {
+    const entry = { seq: lastSeq + 1, ...fields, prevHash: lastHash };
+    let line;
+    try {
+      entry.hash = hashEntry(entry);
+      line = `${JSON.stringify(entry)}\n`;
+      await fs.promises.appendFile(AUDIT_FILE, line);
+    } catch (err) {
+      logger.error('Failed to write audit entry', { seq: entry.seq, action, err });
+      try {
+        await fs.promises.truncate(AUDIT_FILE, fileBytes);
+      } catch (truncateErr) {
+        // Nothing to undo when the file was never created
+        if (truncateErr.code === 'ENOENT') return null;
+        writeFailure = writeFailure || { seq: entry.seq, error: truncateErr.message };
+        logger.error('Failed to remove a partial audit entry; the chain is broken', { seq: entry.seq, err: truncateErr });
+      }
+      return null;
+    }
+    lastSeq = entry.seq;
+    lastHash = entry.hash;
+    fileBytes += Buffer.byteLength(line);
+    return entry;
+  });
+  writeQueue = write;
+  return write;
+}
+
+async function* readEntries() {
+  await writeQueue;
+  if (!fs.existsSync(AUDIT_FILE)) return;
+  const lines = readline.createInterface({ input: fs.createReadStream(AUDIT_FILE), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.trim()) yield JSON.parse(line);
+  }
+}
+
+// Entries matching every given filter, oldest first. `from`/`to` are
+// inclusive ISO timestamps.
+export async function queryAudit({ interactionId, userId, action, from, to, limit = DEFAULT_QUERY_LIMIT } = {}) {
+  const matches = [];
+  for await (const entry of readEntries()) {
+    if (interactionId && entry.interactionId !== interactionId) continue;
+    if (userId && entry.actor?.id !== userId) continue;
+    if (action && entry.action !== action) continue;
+    if (from && entry.time < from) continue;
+    if (to && entry.time > to) continue;
+    matches.push(entry);
+    if (matches.length >= limit) break;
+  }
+  return matches;
+}
+
+// Recompute the chain from the start; reports the first entry that does not fit
+export async function verifyAuditChain() {
+  await writeQueue;
+  if (writeFailure) {
+    return { valid: false, entries: writeFailure.seq - 1, brokenAt: writeFailure.seq, error: writeFailure.error };
+  }
+  let prevHash = GENESIS_HASH;
+  let expectedSeq = 1;
+  let count = 0;
+  try {
+    for await (const entry of readEntries()) {
+      if (entry.seq !== expectedSeq || entry.prevHash !== prevHash || entry.hash !== hashEntry(entry)) {
+        return { valid: false, entries: count, brokenAt: entry.seq ?? expectedSeq };
+      }
+      prevHash = entry.hash;
+      expectedSeq++;
+      count++;
+    }
+  } catch (err) {
+    return { valid: false, entries: count, brokenAt: expectedSeq, error: err.message };
+  }
+  return { valid: true, entries: count };
+}
+
+// ============================================
+// CSV export
+// ============================================
+
+const CSV_COLUMNS = [
+  ['seq', e => e.seq],
+  ['time', e => e.time],
+  ['userId', e => e.actor?.id],
+  ['username', e => e.actor?.username],
+  ['action', e => e.action],
+  ['interactionId', e => e.interactionId],
+  ['documentId', e => e.documentId],
+  ['outcome', e => e.outcome],
+  ['details', e => (e.details ? JSON.stringify(e.details) : '')],
+  ['prevHash', e => e.prevHash],
+  ['hash', e => e.hash]
+];
+
+const csvCell = (value) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Keep spreadsheet apps from evaluating a cell as a formula
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function auditEntriesToCsv(entries) {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = entries.map(entry => CSV_COLUMNS.map(([, get]) => csvCell(get(entry))).join(','));
+  return [header, ...rows].join('\r\n') + '\r\n';
+}
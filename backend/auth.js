@@ -0,0 +1,166 @@
+// Authentication - Login providers, bearer tokens and request guards
+// File: backend/auth.js
+//
+// A provider checks a username and password and returns the user
+// ({ id, username, role }) or null. AUTH_PROVIDER selects one from PROVIDERS; only
+// `local` exists so far. A successful login issues an opaque bearer token.
+// Tokens are kept in memory, so everyone signs in again after a restart.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { logger } from './logger.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const USERS_FILE = path.join(__dirname, 'data', 'users.json');
+
+// Clinicians record and document; auditors can also read the audit trail
+export const ROLES = ['clinician', 'auditor'];
+const DEFAULT_ROLE = 'clinician';
+
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+
+// ============================================
+// Password hashing
+// ============================================
+
+// Stored as scrypt$<salt>$<hash>, both hex
+export function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Checked for unknown usernames, so they cost the same single scrypt run as known ones
+const DUMMY_HASH = hashPassword('');
+
+// ============================================
+// Providers
+// ============================================
+
+export function readUsers(file = USERS_FILE) {
+  if (!fs.existsSync(file)) return [];
+  return JSON.parse(fs.readFileSync(file, 'utf8')).users || [];
+}
+
+// Users from data/users.json, managed with `npm run user:add`
+function createLocalProvider() {
+  return {
+    name: 'local',
+    async authenticate(username, password) {
+      const user = readUsers().find(u => u.username === username);
+      // Verify anyway for unknown users so timing does not reveal which names exist
+      const isValid = verifyPassword(password, user?.passwordHash || DUMMY_HASH);
+      return user && isValid ? { id: user.id, username: user.username, role: user.role || DEFAULT_ROLE } : null;
+    }
+  };
+}
+
+const PROVIDERS = {
+  local: createLocalProvider
+};
+
+let provider = null;
+
+// Create the provider named by AUTH_PROVIDER; called once at server startup
+export function initAuth() {
+  const name = process.env.AUTH_PROVIDER || 'local';
+  if (!PROVIDERS[name]) {
+    logger.error('Unknown AUTH_PROVIDER', { provider: name, available: Object.keys(PROVIDERS) });
+    process.exit(1);
+  }
+  provider = PROVIDERS[name]();
+  logger.info('Auth provider ready', { provider: name });
+
+  if (name === 'local' && readUsers().length === 0) {
+    logger.warn('No users configured. Add one with: npm run user:add -- <username> <password>');
+  }
+}
+
+// ============================================
+// Tokens
+// ============================================
+
+// token -> { user, expiresAt }
+const tokens = new Map();
+
+export async function login(username, password) {
+  const user = await provider.authenticate(username, password);
+  if (!user) return null;
+
+  const now = Date.now();
+  tokens.forEach((entry, token) => {
+    if (entry.expiresAt <= now) tokens.delete(token);
+  });
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = now + TOKEN_TTL_MS;
+  tokens.set(token, { user, expiresAt });
+  return { token, user, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+export const logout = (token) => tokens.delete(token);
+
+export function verifyToken(token) {
+  const entry = token ? tokens.get(token) : null;
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    tokens.delete(token);
+    return null;
+  }
+  return entry.user;
+}
+
+const bearerToken = (req) => {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  return scheme === 'Bearer' ? token : null;
+};
+
+// ============================================
+// Guards
+// ============================================
+
+// Express middleware: sets req.user and req.token, or answers 401
+export function requireAuth(req, res, next) {
+  const token = bearerToken(req) || (req.allowQueryToken ? req.query.token : null);
+  const user = verifyToken(token);
+  if (!user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  req.user = user;
+  req.token = token;
+  next();
+}
+
+// Express middleware for routes limited to one role; use after requireAuth
+export const requireRole = (role) => (req, res, next) => {
+  if (req.user?.role !== role) {
+    return res.status(403).json({ error: `Requires the ${role} role` });
+  }
+  next();
+};
+
+// Express middleware for routes loaded by <audio>/<img> elements, which cannot
+// set headers either: lets requireAuth also accept ?token=
+export function acceptQueryToken(req, res, next) {
+  req.allowQueryToken = true;
+  next();
+}
+
+// WebSocket upgrades: browsers cannot set headers on a WebSocket, so the
+// token may also be passed as ?token=
+export function authenticateUpgrade(req) {
+  const { searchParams } = new URL(req.url, 'http://localhost');
+  return verifyToken(bearerToken(req) || searchParams.get('token'));
+}
@@ -1,11 +1,12 @@
 // Corti SDK Authentication & Client Setup
 
 import dotenv from 'dotenv';
+import { logger } from './logger.js';
 dotenv.config();
 
 // If using custom CA certificates
 if (process.env.NODE_EXTRA_CA_CERTS) {
-  console.log('Using CA certificates from:', process.env.NODE_EXTRA_CA_CERTS);
+  logger.info('Using custom CA certificates', { path: process.env.NODE_EXTRA_CA_CERTS });
 }
 
 import fetch from 'node-fetch';
@@ -15,30 +16,39 @@ globalThis.Request = fetch.Request;
 globalThis.Response = fetch.Response;
 
 import { CortiClient } from '@corti/sdk';
+import { createMockCorti } from './mockCorti.js';
 
-// Validate environment variables
-const requiredEnvVars = ['CLIENT_ID', 'CLIENT_SECRET', 'TENANT_NAME', 'ENVIRONMENT'];
-const missingVars = requiredEnvVars.filter(v => !process.env[v]);
-if (missingVars.length > 0) {
-  console.error('Missing environment variables:', missingVars.join(', '));
-  process.exit(1);
-}
+// CORTI_MOCK=1 swaps the SDK for an in-memory fake; no credentials or network needed
+export const isMockMode = process.env.CORTI_MOCK === '1';
 
-// Initialize Corti SDK
 let corti;
-try {
-  corti = new CortiClient({
-    auth: {
-      clientId: process.env.CLIENT_ID,
-      clientSecret: process.env.CLIENT_SECRET,
-    },
-    tenantName: process.env.TENANT_NAME,
-    environment: process.env.ENVIRONMENT
-  });
-  console.log('Corti SDK initialized');
-} catch (err) {
-  console.error('Failed to initialize Corti SDK:', err.message);
-  process.exit(1);
+if (isMockMode) {
+  corti = createMockCorti();
+  logger.info('Corti mock mode enabled: using the offline stand-in, no API calls will be made');
+} else {
+  // Validate environment variables
+  const requiredEnvVars = ['CLIENT_ID', 'CLIENT_SECRET', 'TENANT_NAME', 'ENVIRONMENT'];
+  const missingVars = requiredEnvVars.filter(v => !process.env[v]);
+  if (missingVars.length > 0) {
+    logger.error('Missing environment variables. Set CORTI_MOCK=1 to run without Corti credentials.', { missingVars });
+    process.exit(1);
+  }
+
+  // Initialize Corti SDK
+  try {
+    corti = new CortiClient({
+      auth: {
+        clientId: process.env.CLIENT_ID,
+        clientSecret: process.env.CLIENT_SECRET,
+      },
+      tenantName: process.env.TENANT_NAME,
+      environment: process.env.ENVIRONMENT
+    });
+    logger.info('Corti SDK initialized');
+  } catch (err) {
+    logger.error('Failed to initialize Corti SDK', { err });
+    process.exit(1);
+  }
 }
 
 export default corti;
\ No newline at end of file
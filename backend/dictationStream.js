@@ -0,0 +1,293 @@
+// Dictation Stream - Real-time dictation over Corti /transcribe
+// File: backend/dictationStream.js
+//
+// One /ws/dictation connection is one dictation: the client sends a config
+// message, then audio. Unlike /ws/ambient there is no interaction, nothing is
+// stored and a dropped connection ends the dictation. Spoken punctuation is
+// applied by Corti; formatting commands are passed on for the client to apply.
+
+import corti from './cortiClient.js';
+import { logger } from './logger.js';
+import { budgetStatus, createBudgetTracker, getDailyUsage, recordUsage } from './usageLedger.js';
+import { buildDictationConfiguration, streamHeaderFor, toCortiTranscribeConfiguration } from './streamConfig.js';
+import {
+  PROTOCOL_VERSION,
+  DICTATION_COMMAND_IDS,
+  encodeMessage,
+  parseDictationClientMessage,
+  validateDictationServerMessage
+} from '../shared/wsProtocol.ts';
+
+const CONFIG_TIMEOUT_MS = 15000;
+
+// `user` is the authenticated user opening the socket
+export function handleDictationConnection(clientWs, { user }) {
+  const log = logger.child({ userId: user.id });
+  const budget = createBudgetTracker(user.id);
+  let transcribeSocket = null;
+  let isConfigReceived = false;
+  let isConfigAccepted = false;
+  let isEndRequested = false;
+  let isEnded = false;
+  let audioQueue = [];
+  let segmentCount = 0;
+
+  log.info('Dictation client connected');
+
+  const sendToClient = (data) => {
+    if (clientWs.readyState !== 1) return;
+    try {
+      clientWs.send(encodeDictationMessage(data, log));
+    } catch (err) {
+      log.error('Error sending to dictation client', { err });
+    }
+  };
+
+  const configTimer = setTimeout(() => {
+    log.warn('No dictation configuration received from client', { timeoutMs: CONFIG_TIMEOUT_MS });
+    sendToClient({ type: 'CONFIG_DENIED', reason: 'No configuration received' });
+    clientWs.close();
+  }, CONFIG_TIMEOUT_MS);
+
+  const sendAudio = (chunk) => {
+    try {
+      transcribeSocket.sendAudio(chunk);
+    } catch (err) {
+      log.error('Error sending dictation audio', { err });
+    }
+  };
+
+  const finish = () => {
+    if (isEnded) return;
+    isEnded = true;
+    sendToClient({ type: 'ended' });
+    clientWs.close();
+  };
+
+  const endDictation = () => {
+    isEndRequested = true;
+    if (!transcribeSocket || !isConfigAccepted) {
+      transcribeSocket?.close();
+      finish();
+      return;
+    }
+    try {
+      transcribeSocket.sendEnd({ type: 'end' });
+    } catch (err) {
+      log.error('Error ending dictation', { err });
+      finish();
+    }
+  };
+
+  const handleUsage = (credits) => {
+    recordUsage({ user, interactionId: null, kind: 'dictation', credits });
+    sendToClient({ type: 'usage', credits });
+    for (const { state, scope, used, limit } of budget.add(credits)) {
+      if (state === 'exceeded') {
+        log.warn('Credit budget exceeded, ending dictation', { scope, used, limit });
+        sendToClient({ type: 'budget_exceeded', scope, used, limit });
+        endDictation();
+        return;
+      }
+      log.info('Credit budget warning', { scope, used, limit });
+      sendToClient({ type: 'budget_warning', scope, used, limit });
+    }
+  };
+
+  const handleCortiMessage = (msg) => {
+    switch (msg.type) {
+      case 'CONFIG_ACCEPTED':
+        log.info('Dictation configuration accepted');
+        isConfigAccepted = true;
+        sendToClient({ type: 'CONFIG_ACCEPTED' });
+        audioQueue.forEach(sendAudio);
+        audioQueue = [];
+        break;
+
+      case 'CONFIG_DENIED':
+      case 'CONFIG_TIMEOUT':
+        log.error('Dictation configuration denied', { type: msg.type, reason: msg.reason });
+        sendToClient({ type: 'CONFIG_DENIED', reason: msg.reason || msg.type });
+        clientWs.close();
+        break;
+
+      case 'transcript': {
+        const data = {
+          id: `segment-${++segmentCount}`,
+          text: msg.data.text,
+          rawTranscriptText: msg.data.rawTranscriptText,
+          isFinal: msg.data.isFinal,
+          start: msg.data.start,
+          end: msg.data.end
+        };
+        log.debug('Dictation segment', { segmentId: data.id, isFinal: data.isFinal, text: data.text });
+        sendToClient({ type: 'transcript', data });
+        break;
+      }
+
+      case 'command':
+        if (!DICTATION_COMMAND_IDS.includes(msg.data?.id)) {
+          log.warn('Unknown dictation command', { commandId: msg.data?.id });
+          break;
+        }
+        log.info('Dictation command', { commandId: msg.data.id });
+        sendToClient({
+          type: 'command',
+          data: {
+            id: msg.data.id,
+            rawTranscriptText: msg.data.rawTranscriptText,
+            start: msg.data.start,
+            end: msg.data.end
+          }
+        });
+        break;
+
+      case 'flushed':
+        sendToClient({ type: 'flushed' });
+        break;
+
+      case 'usage':
+        log.info('Dictation usage', { credits: msg.credits });
+        handleUsage(msg.credits);
+        break;
+
+      case 'ended':
+        log.info('Dictation ended by Corti', { segmentCount });
+        finish();
+        break;
+
+      case 'error':
+        log.error('Dictation error', { error: msg.error });
+        sendToClient({ type: 'error', message: msg.error?.details || msg.error?.title || 'Dictation error' });
+        break;
+
+      default:
+        log.warn('Unhandled Corti dictation message type', { type: msg.type });
+    }
+  };
+
+  const connect = async (configuration) => {
+    try {
+      log.info('Connecting to Corti /transcribe', { configuration });
+      const socket = await corti.transcribe.connect({
+        configuration: toCortiTranscribeConfiguration(configuration)
+      });
+      transcribeSocket = socket;
+
+      socket.on('message', handleCortiMessage);
+      socket.on('error', (error) => {
+        log.error('Transcribe socket error', { err: error });
+        sendToClient({ type: 'error', message: 'Dictation error: ' + (error.message || JSON.stringify(error)) });
+      });
+      socket.on('close', () => {
+        log.info('Transcribe socket closed');
+        if (!isEnded && !isEndRequested) {
+          sendToClient({ type: 'error', message: 'Dictation stream closed unexpectedly' });
+        }
+        finish();
+      });
+
+      // The client may have left while we were connecting
+      if (isEndRequested) {
+        endDictation();
+      }
+    } catch (err) {
+      log.error('Failed to connect to /transcribe', { err });
+      sendToClient({ type: 'error', message: 'Failed to connect to dictation: ' + err.message });
+      clientWs.close();
+    }
+  };
+
+  const handleConfigMessage = (msg) => {
+    if (isConfigReceived) {
+      sendToClient({ type: 'error', message: 'Dictation is already configured' });
+      return;
+    }
+    isConfigReceived = true;
+    clearTimeout(configTimer);
+
+    const { configuration, error } = buildDictationConfiguration(msg.configuration);
+    if (error) {
+      log.warn('Dictation configuration rejected', { reason: error });
+      sendToClient({ type: 'CONFIG_DENIED', reason: error });
+      clientWs.close();
+      return;
+    }
+
+    // A user over their daily cap can't start dictating
+    const daily = budgetStatus('daily', getDailyUsage(user.id));
+    if (daily?.state === 'exceeded') {
+      log.warn('Daily credit budget exceeded, dictation refused', daily);
+      sendToClient({ type: 'budget_exceeded', scope: 'daily', used: daily.used, limit: daily.limit });
+      clientWs.close();
+      return;
+    }
+
+    // Raw PCM needs a WAV header ahead of the first audio chunk
+    const header = streamHeaderFor(configuration.audio);
+    if (header) {
+      audioQueue.push(header);
+    }
+    connect(configuration);
+  };
+
+  clientWs.on('message', (data, isBinary) => {
+    if (isBinary) {
+      if (!isConfigReceived || isEndRequested) return;
+      if (isConfigAccepted) {
+        sendAudio(data);
+      } else {
+        audioQueue.push(data);
+      }
+      return;
+    }
+
+    const result = parseDictationClientMessage(data.toString());
+    if (!result.ok) {
+      log.warn('Invalid dictation message', { reason: result.error });
+      sendToClient({ type: 'error', message: `Invalid message: ${result.error}` });
+      return;
+    }
+
+    const msg = result.message;
+    log.info('Dictation control message', { type: msg.type });
+    switch (msg.type) {
+      case 'config':
+        handleConfigMessage(msg);
+        break;
+      case 'flush':
+        if (isConfigAccepted && !isEndRequested) {
+          transcribeSocket.sendFlush({ type: 'flush' });
+        } else {
+          sendToClient({ type: 'flushed' });
+        }
+        break;
+      case 'end':
+        endDictation();
+        break;
+    }
+  });
+
+  clientWs.on('close', () => {
+    clearTimeout(configTimer);
+    log.info('Dictation client disconnected', { segmentCount });
+    if (!isEnded && !isEndRequested) {
+      endDictation();
+    }
+  });
+
+  clientWs.on('error', (err) => {
+    log.error('Dictation client WebSocket error', { err });
+  });
+}
+
+// Serialize an outgoing message; anything outside the shared protocol is
+// reported to the client as an error instead of being sent
+function encodeDictationMessage(message, log) {
+  const result = validateDictationServerMessage({ ...message, version: PROTOCOL_VERSION });
+  if (!result.ok) {
+    log.error('Protocol violation in outgoing dictation message', { reason: result.error, type: message?.type });
+    return encodeMessage({ type: 'error', message: `Server protocol error: ${result.error}` });
+  }
+  return encodeMessage(message);
+}
@@ -0,0 +1,219 @@
+// Document Batches - Several documents generated from one context
+// File: backend/documentBatch.js
+//
+// A batch is a list of (template, language) items generated from the same
+// context. Items of every batch share one queue that runs at most
+// DOCUMENT_BATCH_CONCURRENCY generations at a time. A failed generation is
+// retried with backoff unless Corti rejected the request itself; an item that
+// still fails can be retried on request for RETRY_WINDOW_MS after the batch
+// settles. Batch state lives in the session record, so results stay grouped
+// under their interaction. The context holds PHI and is kept in memory only
+// while it may still be needed, so items interrupted by a restart or left
+// failed past the window can't be retried.
+
+import { randomUUID } from 'crypto';
+import corti from './cortiClient.js';
+import { logger } from './logger.js';
+import { recordAudit } from './auditLog.js';
+import { budgetStatus, getDailyUsage, recordUsage } from './usageLedger.js';
+import { addDocument, addUsage, getSession, upsertDocumentBatch } from './sessionStore.js';
+
+const DEFAULT_CONCURRENCY = 2;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_WINDOW_MS = 15 * 60 * 1000;
+
+// Item states: queued, generating, retrying, done, failed
+const PENDING_STATES = ['queued', 'generating', 'retrying'];
+
+const readConcurrency = () => {
+  const raw = process.env.DOCUMENT_BATCH_CONCURRENCY;
+  if (!raw) return DEFAULT_CONCURRENCY;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    logger.warn('Ignoring invalid DOCUMENT_BATCH_CONCURRENCY', { value: raw });
+    return DEFAULT_CONCURRENCY;
+  }
+  return value;
+};
+
+export const BATCH_CONCURRENCY = readConcurrency();
+
+// Batches that may still generate, by batch ID: the live batch record plus
+// the context and user it was started with. Dropped once every item is done,
+// or RETRY_WINDOW_MS after the last pending item failed.
+const jobs = new Map();
+// Generations waiting for a free slot, oldest first
+const queue = [];
+let running = 0;
+
+// Corti's own 4xx answers won't change on a retry; rate limits and outages may
+const isRetryable = (err) => !err.statusCode || err.statusCode === 429 || err.statusCode >= 500;
+
+const updateItem = (job, item, patch) => {
+  Object.assign(item, patch, { updatedAt: new Date().toISOString() });
+  upsertDocumentBatch(job.interactionId, job.batch);
+
+  clearTimeout(job.expiryTimer);
+  if (job.batch.items.some(i => PENDING_STATES.includes(i.status))) return;
+  if (job.batch.items.every(i => i.status === 'done')) {
+    jobs.delete(job.batch.id);
+    return;
+  }
+  job.expiryTimer = setTimeout(() => {
+    jobs.delete(job.batch.id);
+    job.log.info('Document batch retry window closed');
+  }, RETRY_WINDOW_MS);
+  job.expiryTimer.unref();
+};
+
+const auditItem = (job, item, outcome, { documentId = null, error } = {}) =>
+  recordAudit({
+    actor: job.user,
+    action: 'document.create',
+    interactionId: job.interactionId,
+    documentId,
+    outcome,
+    details: {
+      templateKey: item.templateKey,
+      outputLanguage: item.outputLanguage,
+      contextType: job.context[0].type,
+      batchId: job.batch.id,
+      ...(error && { error })
+    }
+  });
+
+async function generateItem(job, item) {
+  const { interactionId, user, log } = job;
+  const attempts = item.attempts + 1;
+  updateItem(job, item, { status: 'generating', attempts, error: null });
+
+  // Checked per item: earlier items may have used up the day's budget
+  const daily = budgetStatus('daily', getDailyUsage(user.id));
+  if (daily?.state === 'exceeded') {
+    const error = `Daily credit budget reached (${daily.used.toFixed(4)} of ${daily.limit} credits used today)`;
+    log.warn('Batch document refused, daily budget exceeded', { itemId: item.id, ...daily });
+    auditItem(job, item, 'failure', { error });
+    updateItem(job, item, { status: 'failed', error });
+    return;
+  }
+
+  try {
+    const document = await corti.documents.create(interactionId, {
+      context: job.context,
+      templateKey: item.templateKey,
+      outputLanguage: item.outputLanguage,
+      name: item.name
+    });
+
+    addDocument(interactionId, document);
+    const credits = document?.usageInfo?.creditsConsumed;
+    if (credits) {
+      recordUsage({ user, interactionId, kind: 'document', credits, documentId: document.id ?? null });
+      addUsage(interactionId, credits);
+    }
+    log.info('Batch document created', { itemId: item.id, documentId: document?.id, attempts });
+    auditItem(job, item, 'success', { documentId: document?.id ?? null });
+    updateItem(job, item, { status: 'done', documentId: document?.id ?? null });
+  } catch (err) {
+    if (isRetryable(err) && attempts < MAX_ATTEMPTS) {
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+      log.warn('Batch document failed, retrying', { itemId: item.id, attempts, delayMs, err });
+      updateItem(job, item, { status: 'retrying', error: err.message });
+      setTimeout(() => enqueue(job, item), delayMs);
+      return;
+    }
+    log.error('Batch document failed', { itemId: item.id, attempts, err });
+    auditItem(job, item, 'failure', { error: err.message });
+    updateItem(job, item, { status: 'failed', error: err.message });
+  }
+}
+
+const drain = () => {
+  while (running < BATCH_CONCURRENCY && queue.length > 0) {
+    const { job, item } = queue.shift();
+    running++;
+    generateItem(job, item).finally(() => {
+      running--;
+      drain();
+    });
+  }
+};
+
+const enqueue = (job, item) => {
+  queue.push({ job, item });
+  drain();
+};
+
+// Queue one document per item; `context` and `items` are already validated.
+// Returns the batch as stored, with every item queued.
+export function startDocumentBatch({ user, interactionId, context, items }) {
+  const now = new Date().toISOString();
+  const batch = {
+    id: randomUUID(),
+    createdAt: now,
+    createdBy: user.id,
+    contextType: context[0].type,
+    items: items.map(({ templateKey, outputLanguage, name }) => ({
+      id: randomUUID(),
+      templateKey,
+      outputLanguage,
+      name: name || 'Generated Document',
+      status: 'queued',
+      attempts: 0,
+      documentId: null,
+      error: null,
+      updatedAt: now
+    }))
+  };
+
+  const log = logger.child({ interactionId, userId: user.id, batchId: batch.id });
+  const job = { batch, context, user, interactionId, log };
+  jobs.set(batch.id, job);
+  upsertDocumentBatch(interactionId, batch);
+  log.info('Document batch started', { itemCount: batch.items.length, concurrency: BATCH_CONCURRENCY });
+
+  batch.items.forEach(item => enqueue(job, item));
+  return batch;
+}
+
+// A stored batch with no job behind it was cut short by a restart or its
+// retry window closed; unfinished items are reported as failed
+const withInterruptedItems = (batch) => {
+  if (jobs.has(batch.id)) return batch;
+  return {
+    ...batch,
+    items: batch.items.map(item => (PENDING_STATES.includes(item.status)
+      ? { ...item, status: 'failed', error: 'Interrupted by a server restart' }
+      : item))
+  };
+};
+
+// Batches of an interaction, newest first
+export function listDocumentBatches(interactionId) {
+  const batches = getSession(interactionId)?.documentBatches || [];
+  return batches
+    .map(withInterruptedItems)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getDocumentBatch(interactionId, batchId) {
+  const batch = (getSession(interactionId)?.documentBatches || []).find(b => b.id === batchId);
+  return batch ? withInterruptedItems(batch) : null;
+}
+
+// Queue a failed item again, with a fresh set of attempts. Returns false when
+// the batch's context is gone (server restart or retry window closed); the
+// caller checks the item failed.
+export function retryBatchItem({ user, interactionId, batchId, itemId }) {
+  const job = jobs.get(batchId);
+  if (!job || job.interactionId !== interactionId) return false;
+  const item = job.batch.items.find(i => i.id === itemId);
+  if (!item || item.status !== 'failed') return false;
+
+  job.user = user;
+  job.log.info('Retrying batch document', { itemId });
+  updateItem(job, item, { status: 'queued', attempts: 0, error: null });
+  enqueue(job, item);
+  return true;
+}
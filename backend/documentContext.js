@@ -0,0 +1,150 @@
+// Document Context & Section Validation
+// File: backend/documentContext.js
+
+const FACT_SOURCES = ['core', 'system', 'user'];
+const TRANSCRIPT_NUMBER_FIELDS = ['channel', 'participant', 'speakerId', 'start', 'end'];
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0;
+
+// Each validator returns an error message for the context's `data`, or null if valid
+const validators = {
+  facts: (data) => {
+    if (!Array.isArray(data) || data.length === 0) {
+      return 'data must be a non-empty array of facts';
+    }
+    for (const [i, fact] of data.entries()) {
+      if (!fact || typeof fact !== 'object') {
+        return `data[${i}] must be an object`;
+      }
+      if (!isNonEmptyString(fact.text)) {
+        return `data[${i}].text must be a non-empty string`;
+      }
+      if (fact.group !== undefined && typeof fact.group !== 'string') {
+        return `data[${i}].group must be a string`;
+      }
+      if (!FACT_SOURCES.includes(fact.source)) {
+        return `data[${i}].source must be one of: ${FACT_SOURCES.join(', ')}`;
+      }
+    }
+    return null;
+  },
+
+  transcript: (data) => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return 'data must be a transcript object';
+    }
+    if (!isNonEmptyString(data.text)) {
+      return 'data.text must be a non-empty string';
+    }
+    for (const field of TRANSCRIPT_NUMBER_FIELDS) {
+      if (data[field] !== undefined && typeof data[field] !== 'number') {
+        return `data.${field} must be a number`;
+      }
+    }
+    return null;
+  },
+
+  string: (data) => {
+    if (!isNonEmptyString(data)) {
+      return 'data must be a non-empty string';
+    }
+    return null;
+  },
+};
+
+export const CONTEXT_TYPES = Object.keys(validators);
+
+// Validate a documents.create context array. Returns an error message, or null if valid.
+export function validateDocumentContext(context) {
+  if (!Array.isArray(context) || context.length === 0) {
+    return 'Context is required and must be a non-empty array';
+  }
+  // The documents API currently accepts exactly one context object
+  if (context.length > 1) {
+    return 'Context must contain exactly one entry; combine sources into a single string context';
+  }
+
+  for (const [i, entry] of context.entries()) {
+    if (!entry || typeof entry !== 'object') {
+      return `context[${i}] must be an object`;
+    }
+    const validate = validators[entry.type];
+    if (!validate) {
+      return `context[${i}].type must be one of: ${CONTEXT_TYPES.join(', ')}`;
+    }
+    const error = validate(entry.data);
+    if (error) {
+      return `context[${i}].${error}`;
+    }
+  }
+
+  return null;
+}
+
+// Validate the sections of a documents.update request. Returns an error message, or null if valid.
+export function validateDocumentSections(sections) {
+  if (!Array.isArray(sections) || sections.length === 0) {
+    return 'sections must be a non-empty array';
+  }
+
+  const seen = new Set();
+  for (const [i, section] of sections.entries()) {
+    if (!section || typeof section !== 'object') {
+      return `sections[${i}] must be an object`;
+    }
+    if (!isNonEmptyString(section.key)) {
+      return `sections[${i}].key must be a non-empty string`;
+    }
+    if (seen.has(section.key)) {
+      return `sections[${i}].key is duplicated: ${section.key}`;
+    }
+    seen.add(section.key);
+    if (typeof section.text !== 'string') {
+      return `sections[${i}].text must be a string`;
+    }
+    if (section.name !== undefined && typeof section.name !== 'string') {
+      return `sections[${i}].name must be a string`;
+    }
+    if (section.sort !== undefined && typeof section.sort !== 'number') {
+      return `sections[${i}].sort must be a number`;
+    }
+  }
+
+  return null;
+}
+
+export const MAX_BATCH_ITEMS = 10;
+
+// Validate the items of a document batch: distinct (templateKey,
+// outputLanguage) pairs with an optional name. Returns an error message, or null if valid.
+export function validateBatchItems(items) {
+  if (!Array.isArray(items) || items.length === 0) {
+    return 'items must be a non-empty array';
+  }
+  if (items.length > MAX_BATCH_ITEMS) {
+    return `items supports at most ${MAX_BATCH_ITEMS} documents`;
+  }
+
+  const seen = new Set();
+  for (const [i, item] of items.entries()) {
+    if (!item || typeof item !== 'object') {
+      return `items[${i}] must be an object`;
+    }
+    if (!isNonEmptyString(item.templateKey)) {
+      return `items[${i}].templateKey must be a non-empty string`;
+    }
+    if (!isNonEmptyString(item.outputLanguage)) {
+      return `items[${i}].outputLanguage must be a non-empty string`;
+    }
+    if (item.name !== undefined && typeof item.name !== 'string') {
+      return `items[${i}].name must be a string`;
+    }
+    const pair = `${item.templateKey}|${item.outputLanguage}`;
+    if (seen.has(pair)) {
+      return `items[${i}] repeats ${item.templateKey} in ${item.outputLanguage}`;
+    }
+    seen.add(pair);
+  }
+
+  return null;
+}
@@ -0,0 +1,273 @@
+// Document Export - PDF, DOCX, Markdown and FHIR renderings of a generated document
+// File: backend/documentExport.js
+
+import { randomUUID } from 'crypto';
+import PDFDocument from 'pdfkit';
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+
+export const EXPORT_FORMATS = {
+  pdf: { contentType: 'application/pdf', extension: 'pdf' },
+  docx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx'
+  },
+  md: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  fhir: { contentType: 'application/fhir+json; charset=utf-8', extension: 'fhir.json' }
+};
+
+// LOINC "Note" document type; templates don't map onto more specific codes
+const LOINC_NOTE = { system: 'http://loinc.org', code: '34109-9', display: 'Note' };
+const CORTI_DOCUMENT_SYSTEM = 'urn:corti:document';
+const CORTI_INTERACTION_SYSTEM = 'urn:corti:interaction';
+
+const sortedSections = (document) =>
+  (document.sections || []).slice().sort((a, b) => (a.sort || 0) - (b.sort || 0));
+
+const toIso = (value) => (value ? new Date(value).toISOString() : new Date().toISOString());
+
+// Header block shared by every format
+const headerFields = (document, interactionId) => [
+  ['Interaction ID', interactionId],
+  ['Date', `${toIso(document.createdAt).slice(0, 16).replace('T', ' ')} UTC`],
+  ['Template', document.templateRef || document.templateKey || '—'],
+  ['Language', document.outputLanguage || '—']
+];
+
+// Section text from the documents API uses a small markdown subset: headings,
+// bullet/numbered lists and **bold** / *italic* inline markers
+const parseLine = (line) => {
+  const heading = line.match(/^#{1,6}\s+(.*)$/);
+  if (heading) return { kind: 'heading', text: heading[1] };
+  const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+  if (bullet) return { kind: 'bullet', text: bullet[1] };
+  return { kind: 'text', text: line };
+};
+
+const parseInline = (text) => {
+  const runs = [];
+  const pattern = /(\*\*|__)(.+?)\1|(\*|_)(.+?)\3/g;
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      runs.push({ text: text.slice(lastIndex, match.index) });
+    }
+    runs.push(match[2] !== undefined ? { text: match[2], bold: true } : { text: match[4], italic: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    runs.push({ text: text.slice(lastIndex) });
+  }
+  return runs;
+};
+
+// ============================================
+// Markdown
+// ============================================
+
+function toMarkdown(document, interactionId) {
+  const lines = [`# ${document.name || 'Generated Document'}`, ''];
+  headerFields(document, interactionId).forEach(([label, value]) => {
+    lines.push(`- **${label}:** ${value}`);
+  });
+  sortedSections(document).forEach(section => {
+    lines.push('', `## ${section.name || section.key}`, '', (section.text || '').trim());
+  });
+  return Buffer.from(lines.join('\n') + '\n', 'utf8');
+}
+
+// ============================================
+// PDF
+// ============================================
+
+const FONTS = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique'
+};
+
+const writePdfRuns = (pdf, runs, options = {}) => {
+  if (runs.length === 0) {
+    pdf.moveDown(0.5);
+    return;
+  }
+  runs.forEach((run, i) => {
+    pdf.font(run.bold ? FONTS.bold : run.italic ? FONTS.italic : FONTS.regular)
+      .text(run.text, { ...options, continued: i < runs.length - 1 });
+  });
+};
+
+function toPdf(document, interactionId) {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: 'A4', margin: 56, info: { Title: document.name || 'Generated Document' } });
+    const chunks = [];
+    pdf.on('data', chunk => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    pdf.font(FONTS.bold).fontSize(18).text(document.name || 'Generated Document');
+    pdf.moveDown(0.5);
+    pdf.fontSize(10);
+    headerFields(document, interactionId).forEach(([label, value]) => {
+      pdf.font(FONTS.bold).text(`${label}: `, { continued: true }).font(FONTS.regular).text(String(value));
+    });
+    pdf.moveDown();
+
+    sortedSections(document).forEach(section => {
+      pdf.font(FONTS.bold).fontSize(12).text((section.name || section.key).toUpperCase());
+      pdf.moveDown(0.3);
+      pdf.fontSize(11);
+      (section.text || '').split('\n').forEach(line => {
+        const { kind, text } = parseLine(line);
+        if (kind === 'heading') {
+          pdf.font(FONTS.bold).text(text);
+        } else if (kind === 'bullet') {
+          writePdfRuns(pdf, parseInline(`•  ${text}`), { indent: 12 });
+        } else {
+          writePdfRuns(pdf, parseInline(text));
+        }
+      });
+      pdf.moveDown();
+    });
+
+    pdf.end();
+  });
+}
+
+// ============================================
+// DOCX
+// ============================================
+
+const docxRuns = (text) => parseInline(text).map(run => new TextRun(run));
+
+function toDocx(document, interactionId) {
+  const children = [
+    new Paragraph({ text: document.name || 'Generated Document', heading: HeadingLevel.TITLE }),
+    ...headerFields(document, interactionId).map(([label, value]) => new Paragraph({
+      children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(String(value))]
+    }))
+  ];
+
+  sortedSections(document).forEach(section => {
+    children.push(new Paragraph({ text: section.name || section.key, heading: HeadingLevel.HEADING_2 }));
+    (section.text || '').split('\n').forEach(line => {
+      const { kind, text } = parseLine(line);
+      if (kind === 'heading') {
+        children.push(new Paragraph({ text, heading: HeadingLevel.HEADING_3 }));
+      } else if (kind === 'bullet') {
+        children.push(new Paragraph({ children: docxRuns(text), bullet: { level: 0 } }));
+      } else if (text.trim()) {
+        children.push(new Paragraph({ children: docxRuns(text) }));
+      }
+    });
+  });
+
+  return Packer.toBuffer(new Document({
+    title: document.name || 'Generated Document',
+    sections: [{ children }]
+  }));
+}
+
+// ============================================
+// FHIR R4 document Bundle
+// ============================================
+
+const escapeXhtml = (text) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const sectionNarrative = (text) => {
+  const paragraphs = (text || '').split('\n').filter(line => line.trim())
+    .map(line => `<p>${escapeXhtml(line)}</p>`);
+  return `<div xmlns="http://www.w3.org/1999/xhtml">${paragraphs.join('') || '<p/>'}</div>`;
+};
+
+// A FHIR document Bundle: the Composition carries the structured sections and
+// a DocumentReference indexes the same note as a Markdown attachment
+function toFhirBundle(document, interactionId) {
+  const compositionId = randomUUID();
+  const referenceId = randomUUID();
+  const date = toIso(document.updatedAt || document.createdAt);
+  const title = document.name || 'Generated Document';
+  const documentIdentifier = { system: CORTI_DOCUMENT_SYSTEM, value: document.id };
+  const interactionReference = {
+    identifier: { system: CORTI_INTERACTION_SYSTEM, value: interactionId },
+    display: `Corti interaction ${interactionId}`
+  };
+  const author = { display: 'Corti ambient documentation' };
+  const type = { coding: [LOINC_NOTE], text: document.templateRef || document.templateKey || LOINC_NOTE.display };
+
+  const composition = {
+    resourceType: 'Composition',
+    id: compositionId,
+    identifier: documentIdentifier,
+    status: 'preliminary',
+    type,
+    encounter: interactionReference,
+    date,
+    author: [author],
+    title,
+    ...(document.outputLanguage && { language: document.outputLanguage }),
+    section: sortedSections(document).map(section => ({
+      title: section.name || section.key,
+      code: { text: section.key },
+      text: { status: 'generated', div: sectionNarrative(section.text) }
+    }))
+  };
+
+  const documentReference = {
+    resourceType: 'DocumentReference',
+    id: referenceId,
+    identifier: [documentIdentifier],
+    status: 'current',
+    docStatus: 'preliminary',
+    type,
+    date,
+    author: [author],
+    description: title,
+    content: [{
+      attachment: {
+        contentType: 'text/markdown',
+        ...(document.outputLanguage && { language: document.outputLanguage }),
+        data: toMarkdown(document, interactionId).toString('base64'),
+        title,
+        creation: toIso(document.createdAt)
+      }
+    }],
+    context: {
+      related: [interactionReference, { reference: `urn:uuid:${compositionId}` }]
+    }
+  };
+
+  const bundle = {
+    resourceType: 'Bundle',
+    identifier: { system: CORTI_DOCUMENT_SYSTEM, value: document.id },
+    type: 'document',
+    timestamp: new Date().toISOString(),
+    entry: [
+      { fullUrl: `urn:uuid:${compositionId}`, resource: composition },
+      { fullUrl: `urn:uuid:${referenceId}`, resource: documentReference }
+    ]
+  };
+
+  return Buffer.from(JSON.stringify(bundle, null, 2), 'utf8');
+}
+
+const renderers = {
+  pdf: toPdf,
+  docx: toDocx,
+  md: toMarkdown,
+  fhir: toFhirBundle
+};
+
+// Render a document in one of EXPORT_FORMATS. Resolves to { body, contentType, filename }.
+export async function exportDocument(document, format, { interactionId }) {
+  const target = EXPORT_FORMATS[format];
+  if (!target) {
+    throw new Error(`Unsupported export format: ${format}`);
+  }
+  const body = await renderers[format](document, interactionId);
+  return {
+    body,
+    contentType: target.contentType,
+    filename: `document-${document.id || 'export'}.${target.extension}`
+  };
+}
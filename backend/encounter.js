@@ -0,0 +1,113 @@
+// Encounter Details - Validation of the encounter an interaction is created for
+// File: backend/encounter.js
+//
+// The client describes the encounter in the `start` message of /ws/ambient and
+// may correct it later through PATCH /api/interactions/:id. Both are checked
+// here before they reach corti.interactions.
+
+export const ENCOUNTER_TYPES = ['first_consultation', 'consultation', 'emergency', 'inpatient', 'outpatient'];
+// `deleted` is left to DELETE /api/interactions/:id
+export const ENCOUNTER_STATUSES = ['planned', 'in-progress', 'on-hold', 'completed', 'cancelled'];
+
+const DEFAULT_TYPE = 'consultation';
+const DEFAULT_TITLE = 'Ambient Documentation Session';
+const MAX_TEXT_LENGTH = 200;
+
+const oneOf = (value, allowed, field) =>
+  allowed.includes(value) ? null : `${field} must be one of: ${allowed.join(', ')}`;
+
+const checkText = (value, field) => {
+  if (typeof value !== 'string') return `${field} must be a string`;
+  if (value.length > MAX_TEXT_LENGTH) return `${field} must be at most ${MAX_TEXT_LENGTH} characters`;
+  return null;
+};
+
+const checkPatient = (patient) => {
+  if (!patient || typeof patient !== 'object' || Array.isArray(patient)) {
+    return 'patient must be an object';
+  }
+  return checkText(patient.identifier, 'patient.identifier') ||
+    (!patient.identifier.trim() && 'patient.identifier must not be empty');
+};
+
+// Validate the encounter of a new session. Every field is optional: a missing
+// identifier is generated, and type and title fall back to the defaults.
+// Returns { encounter, patient } on success (patient may be null) or { error }.
+export function buildEncounter(input = {}) {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'encounter must be an object' };
+  }
+  const { identifier, type = DEFAULT_TYPE, title, patient } = input;
+
+  const error =
+    (identifier !== undefined && checkText(identifier, 'encounter.identifier')) ||
+    oneOf(type, ENCOUNTER_TYPES, 'encounter.type') ||
+    (title !== undefined && checkText(title, 'encounter.title')) ||
+    (patient !== undefined && patient !== null && checkPatient(patient));
+  if (error) {
+    return { error };
+  }
+
+  return {
+    encounter: {
+      identifier: identifier?.trim() || `ambient-${Date.now()}`,
+      status: 'in-progress',
+      type,
+      title: title?.trim() || DEFAULT_TITLE
+    },
+    patient: patient ? { identifier: patient.identifier.trim() } : null
+  };
+}
+
+// Validate a PATCH /api/interactions/:id body: { encounter?: { identifier,
+// type, title, status }, patient?: { identifier } }, every field optional.
+// Returns { update } in the shape corti.interactions.update takes, or { error }.
+export function buildInteractionUpdate(input = {}) {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Request body must be an object' };
+  }
+  const { encounter, patient } = input;
+  if (encounter === undefined && patient === undefined) {
+    return { error: 'Nothing to update: send encounter and/or patient' };
+  }
+  if (encounter !== undefined && (!encounter || typeof encounter !== 'object' || Array.isArray(encounter))) {
+    return { error: 'encounter must be an object' };
+  }
+
+  const { identifier, type, title, status } = encounter || {};
+  if (encounter && [identifier, type, title, status].every(value => value === undefined)) {
+    return { error: 'encounter must contain at least one of identifier, type, title or status' };
+  }
+  const error =
+    (identifier !== undefined && (checkText(identifier, 'encounter.identifier') ||
+      (!identifier.trim() && 'encounter.identifier must not be empty'))) ||
+    (type !== undefined && oneOf(type, ENCOUNTER_TYPES, 'encounter.type')) ||
+    (title !== undefined && checkText(title, 'encounter.title')) ||
+    (status !== undefined && oneOf(status, ENCOUNTER_STATUSES, 'encounter.status')) ||
+    (patient !== undefined && checkPatient(patient));
+  if (error) {
+    return { error };
+  }
+
+  const update = {};
+  if (encounter) {
+    update.encounter = {
+      ...(identifier !== undefined && { identifier: identifier.trim() }),
+      ...(type !== undefined && { type }),
+      ...(title !== undefined && { title: title.trim() || null }),
+      ...(status !== undefined && { status })
+    };
+  }
+  if (patient !== undefined) {
+    update.patient = { identifier: patient.identifier.trim() };
+  }
+  return { update };
+}
+
+// The encounter summary kept in the session record
+export const toStoredEncounter = (encounter, patient) => ({
+  identifier: encounter.identifier,
+  type: encounter.type,
+  title: encounter.title ?? null,
+  patientIdentifier: patient?.identifier || null
+});
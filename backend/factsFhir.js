@@ -0,0 +1,350 @@
+// Facts FHIR Mapping - Turn extracted facts into a FHIR R4 Bundle
+// File: backend/factsFhir.js
+//
+// Allergies, medications, past medical history and vitals become structured
+// resources. Every other fact group is kept as narrative sections of a
+// Composition. Facts carry no patient demographics, so all resources point at
+// a placeholder Patient that the receiving system matches to its own record.
+
+import { randomUUID } from 'crypto';
+
+const FACT_SYSTEM = 'urn:corti:fact';
+const FACT_SOURCE_SYSTEM = 'urn:corti:fact-source';
+const INTERACTION_SYSTEM = 'urn:corti:interaction';
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const CONDITION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/condition-category';
+const CONDITION_VER_STATUS = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+const ALLERGY_VER_STATUS = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-verification';
+
+// Fact groups mapped to structured resources; all others become narrative
+export const STRUCTURED_GROUPS = {
+  'allergies': 'AllergyIntolerance',
+  'medications-prior-to-visit': 'MedicationStatement',
+  'past-medical-history': 'Condition',
+  'vital-signs': 'Observation'
+};
+
+// Section titles for narrative groups (mirrors factGroups in src/constants)
+export const FACT_GROUP_LABELS = {
+  'chief-complaint': 'Chief Complaint',
+  'history-of-present-illness': 'History of Present Illness',
+  'past-medical-history': 'Medical History',
+  'medications-prior-to-visit': 'Medications',
+  'allergies': 'Allergies',
+  'social-history': 'Social History',
+  'family-history': 'Family History',
+  'review-of-systems': 'Review of Systems',
+  'physical-exam': 'Physical Exam',
+  'assessment': 'Assessment',
+  'plan': 'Plan',
+  'demographics': 'Demographics',
+  'vital-signs': 'Vitals'
+};
+
+// Vital signs recognised in fact text, with their LOINC code and UCUM unit.
+// Facts that match none of these become Observations coded by text only.
+const VITAL_SIGNS = [
+  { pattern: /blood pressure|\bbp\b/i, code: '85354-9', display: 'Blood pressure panel' },
+  { pattern: /heart rate|pulse(?!\s*ox)|\bhr\b/i, code: '8867-4', display: 'Heart rate', unit: '/min', unitDisplay: 'beats/minute' },
+  { pattern: /respiratory rate|respiration|\brr\b/i, code: '9279-1', display: 'Respiratory rate', unit: '/min', unitDisplay: 'breaths/minute' },
+  { pattern: /temperature|temp\b/i, code: '8310-5', display: 'Body temperature', unit: 'Cel', unitDisplay: 'C' },
+  { pattern: /oxygen saturation|spo2|pulse\s*ox(?:imetry)?|\bsats?\b|o2 sat/i, code: '59408-5', display: 'Oxygen saturation in Arterial blood by Pulse oximetry', unit: '%', unitDisplay: '%' },
+  { pattern: /weight/i, code: '29463-7', display: 'Body weight', unit: 'kg', unitDisplay: 'kg' },
+  { pattern: /height/i, code: '8302-2', display: 'Body height', unit: 'cm', unitDisplay: 'cm' }
+];
+
+const BP_COMPONENTS = {
+  systolic: { code: '8480-6', display: 'Systolic blood pressure' },
+  diastolic: { code: '8462-4', display: 'Diastolic blood pressure' }
+};
+
+const NUMBER = /(-?\d+(?:[.,]\d+)?)/;
+// Imperial and metre heights, matched at the start of the reading
+const FEET_INCHES = /^(\d+(?:[.,]\d+)?)\s*(?:ft|feet|foot|')\s*(?:(\d+(?:[.,]\d+)?)\s*(?:in|inch|inches|")?)?/i;
+const INCHES = /^(\d+(?:[.,]\d+)?)\s*(?:in|inch|inches|")(?![a-z])/i;
+const METRES = /^(\d+(?:[.,]\d+)?)\s*m(?![a-z])/i;
+
+const escapeXhtml = (text) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const narrative = (lines) =>
+  `<div xmlns="http://www.w3.org/1999/xhtml">${lines.map(line => `<p>${escapeXhtml(line)}</p>`).join('')}</div>`;
+
+const toIso = (value) => (value ? new Date(value).toISOString() : new Date().toISOString());
+
+const parseNumber = (value) => Number(value.replace(',', '.'));
+
+// Fields shared by every fact-derived resource
+const factMetadata = (fact) => ({
+  identifier: [{ system: FACT_SYSTEM, value: fact.id }],
+  meta: { tag: [{ system: FACT_SOURCE_SYSTEM, code: fact.source || 'core' }] },
+  text: { status: 'generated', div: narrative([fact.text]) }
+});
+
+const quantity = (value, vital) => ({ value, unit: vital.unitDisplay, system: UCUM, code: vital.unit });
+
+const loincConcept = ({ code, display }, text) => ({
+  coding: [{ system: LOINC, code, display }],
+  text
+});
+
+// Observation values for a recognised vital sign, or null if the text has no usable number
+const vitalValue = (vital, text) => {
+  if (vital.code === '85354-9') {
+    const bp = text.match(/(\d{2,3})\s*\/\s*(\d{2,3})/);
+    if (!bp) return null;
+    return {
+      component: [
+        { code: loincConcept(BP_COMPONENTS.systolic), valueQuantity: { value: Number(bp[1]), unit: 'mmHg', system: UCUM, code: 'mm[Hg]' } },
+        { code: loincConcept(BP_COMPONENTS.diastolic), valueQuantity: { value: Number(bp[2]), unit: 'mmHg', system: UCUM, code: 'mm[Hg]' } }
+      ]
+    };
+  }
+
+  // The reading follows the vital's name; digits before it, such as the 2 of
+  // "SpO2" or "O2 sat", are not the value
+  const keyword = text.match(vital.pattern);
+  const reading = keyword ? text.slice(keyword.index + keyword[0].length) : text;
+  const number = reading.match(NUMBER);
+  if (!number) return null;
+  let value = parseNumber(number[1]);
+  // Convert imperial readings so each vital keeps a single UCUM unit. Body
+  // temperatures above 50 can only be Fahrenheit.
+  if (vital.code === '8310-5' && value > 50) {
+    value = Math.round(((value - 32) * 5 / 9) * 10) / 10;
+  }
+  if (vital.code === '29463-7' && /\blbs?\b|pounds?/i.test(text)) {
+    value = Math.round(value * 0.45359237 * 10) / 10;
+  }
+  if (vital.code === '8302-2') {
+    const fromNumber = reading.slice(number.index);
+    const feet = fromNumber.match(FEET_INCHES);
+    const inches = fromNumber.match(INCHES);
+    const metres = fromNumber.match(METRES);
+    if (feet) {
+      value = Math.round((parseNumber(feet[1]) * 12 + (feet[2] ? parseNumber(feet[2]) : 0)) * 2.54 * 10) / 10;
+    } else if (inches) {
+      value = Math.round(parseNumber(inches[1]) * 2.54 * 10) / 10;
+    } else if (metres) {
+      value = Math.round(parseNumber(metres[1]) * 100 * 10) / 10;
+    }
+  }
+  return { valueQuantity: quantity(value, vital) };
+};
+
+const mappers = {
+  AllergyIntolerance: (fact, { patientRef, recordedDate }) => ({
+    resourceType: 'AllergyIntolerance',
+    ...factMetadata(fact),
+    clinicalStatus: {
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical', code: 'active' }]
+    },
+    verificationStatus: { coding: [{ system: ALLERGY_VER_STATUS, code: 'unconfirmed' }] },
+    code: { text: fact.text },
+    patient: patientRef,
+    recordedDate
+  }),
+
+  MedicationStatement: (fact, { patientRef, recordedDate }) => ({
+    resourceType: 'MedicationStatement',
+    ...factMetadata(fact),
+    status: 'active',
+    medicationCodeableConcept: { text: fact.text },
+    subject: patientRef,
+    dateAsserted: recordedDate
+  }),
+
+  Condition: (fact, { patientRef, recordedDate }) => ({
+    resourceType: 'Condition',
+    ...factMetadata(fact),
+    verificationStatus: { coding: [{ system: CONDITION_VER_STATUS, code: 'unconfirmed' }] },
+    category: [{ coding: [{ system: CONDITION_CATEGORY, code: 'problem-list-item' }] }],
+    code: { text: fact.text },
+    subject: patientRef,
+    recordedDate
+  }),
+
+  Observation: (fact, { patientRef, recordedDate }) => {
+    const vital = VITAL_SIGNS.find(v => v.pattern.test(fact.text));
+    const value = vital && vitalValue(vital, fact.text);
+    return {
+      resourceType: 'Observation',
+      ...factMetadata(fact),
+      status: 'preliminary',
+      category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'vital-signs', display: 'Vital Signs' }] }],
+      code: value ? loincConcept(vital, fact.text) : { text: fact.text },
+      subject: patientRef,
+      effectiveDateTime: recordedDate,
+      ...(value || { valueString: fact.text })
+    };
+  }
+};
+
+// Map the current fact set of an interaction to a FHIR R4 collection Bundle.
+// Discarded facts are left out.
+export function factsToFhirBundle(facts, { interactionId }) {
+  const activeFacts = (facts || []).filter(f => !f.isDiscarded && f.text);
+  const patientUrl = `urn:uuid:${randomUUID()}`;
+  const patientRef = { reference: patientUrl };
+  const entries = [{
+    fullUrl: patientUrl,
+    resource: {
+      resourceType: 'Patient',
+      text: { status: 'generated', div: narrative([`Patient of Corti interaction ${interactionId}`]) }
+    }
+  }];
+
+  const narrativeGroups = new Map();
+  activeFacts.forEach(fact => {
+    const resourceType = STRUCTURED_GROUPS[fact.group];
+    if (!resourceType) {
+      const group = fact.group || 'other';
+      if (!narrativeGroups.has(group)) narrativeGroups.set(group, []);
+      narrativeGroups.get(group).push(fact);
+      return;
+    }
+    const recordedDate = toIso(fact.updatedAt || fact.createdAt);
+    entries.push({
+      fullUrl: `urn:uuid:${randomUUID()}`,
+      resource: mappers[resourceType](fact, { patientRef, recordedDate })
+    });
+  });
+
+  if (narrativeGroups.size > 0) {
+    entries.push({
+      fullUrl: `urn:uuid:${randomUUID()}`,
+      resource: {
+        resourceType: 'Composition',
+        identifier: { system: INTERACTION_SYSTEM, value: interactionId },
+        status: 'preliminary',
+        type: { coding: [{ system: LOINC, code: '34109-9', display: 'Note' }], text: 'Clinical facts' },
+        subject: patientRef,
+        date: new Date().toISOString(),
+        author: [{ display: 'Corti FactsR' }],
+        title: 'Clinical facts',
+        section: Array.from(narrativeGroups.entries()).map(([group, groupFacts]) => ({
+          title: FACT_GROUP_LABELS[group] || group,
+          code: { text: group },
+          text: { status: 'generated', div: narrative(groupFacts.map(f => f.text)) }
+        }))
+      }
+    });
+  }
+
+  return {
+    resourceType: 'Bundle',
+    identifier: { system: INTERACTION_SYSTEM, value: interactionId },
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: entries
+  };
+}
+
+// ============================================
+// Validation
+// ============================================
+
+const MEDICATION_STATUSES = ['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken'];
+const OBSERVATION_STATUSES = ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'];
+const COMPOSITION_STATUSES = ['preliminary', 'final', 'amended', 'entered-in-error'];
+
+const hasConcept = (concept) =>
+  !!concept && (typeof concept.text === 'string' && concept.text.length > 0 || (concept.coding || []).length > 0);
+
+const isDateTime = (value) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+// Required elements and value sets per resource type (FHIR R4 cardinalities)
+const resourceRules = {
+  Patient: () => [],
+
+  AllergyIntolerance: (r) => [
+    !r.patient?.reference && 'patient is required',
+    !hasConcept(r.code) && 'code is required'
+  ],
+
+  MedicationStatement: (r) => [
+    !MEDICATION_STATUSES.includes(r.status) && `status must be one of: ${MEDICATION_STATUSES.join(', ')}`,
+    !hasConcept(r.medicationCodeableConcept) && !r.medicationReference && 'medication[x] is required',
+    !r.subject?.reference && 'subject is required'
+  ],
+
+  Condition: (r) => [
+    !r.subject?.reference && 'subject is required',
+    !hasConcept(r.code) && 'code is required'
+  ],
+
+  Observation: (r) => {
+    const isVitalSign = (r.category || []).some(c => c.coding?.some(coding => coding.code === 'vital-signs'));
+    const hasValue = r.valueQuantity || r.valueString !== undefined || (r.component || []).length > 0;
+    const quantities = [r.valueQuantity, ...(r.component || []).map(c => c.valueQuantity)].filter(Boolean);
+    return [
+      !OBSERVATION_STATUSES.includes(r.status) && `status must be one of: ${OBSERVATION_STATUSES.join(', ')}`,
+      !hasConcept(r.code) && 'code is required',
+      !hasValue && 'a value or components are required',
+      isVitalSign && !isDateTime(r.effectiveDateTime) && 'vital signs need effectiveDateTime',
+      quantities.some(q => typeof q.value !== 'number' || Number.isNaN(q.value) || q.system !== UCUM || !q.code)
+        && 'quantities must have a numeric value and a UCUM code'
+    ];
+  },
+
+  Composition: (r) => [
+    !COMPOSITION_STATUSES.includes(r.status) && `status must be one of: ${COMPOSITION_STATUSES.join(', ')}`,
+    !hasConcept(r.type) && 'type is required',
+    !isDateTime(r.date) && 'date is required',
+    !(r.author || []).length && 'author is required',
+    !r.title && 'title is required',
+    (r.section || []).some(s => !s.text?.div) && 'sections need a narrative'
+  ]
+};
+
+// Check a Bundle built by factsToFhirBundle: structure, required elements
+// and that every reference resolves within the Bundle. Returns error strings.
+export function validateFhirBundle(bundle) {
+  const errors = [];
+
+  if (bundle?.resourceType !== 'Bundle') {
+    return ['resourceType must be Bundle'];
+  }
+  if (bundle.type !== 'collection') errors.push('Bundle.type must be collection');
+  if (!isDateTime(bundle.timestamp)) errors.push('Bundle.timestamp must be a dateTime');
+  if (!Array.isArray(bundle.entry)) {
+    return [...errors, 'Bundle.entry must be an array'];
+  }
+
+  const fullUrls = new Set();
+  bundle.entry.forEach((entry, i) => {
+    if (!/^urn:uuid:[0-9a-f-]{36}$/.test(entry.fullUrl || '')) {
+      errors.push(`entry[${i}].fullUrl must be a urn:uuid`);
+    } else if (fullUrls.has(entry.fullUrl)) {
+      errors.push(`entry[${i}].fullUrl is duplicated`);
+    }
+    fullUrls.add(entry.fullUrl);
+  });
+
+  bundle.entry.forEach((entry, i) => {
+    const resource = entry.resource;
+    const rules = resourceRules[resource?.resourceType];
+    if (!rules) {
+      errors.push(`entry[${i}].resource has unsupported type: ${resource?.resourceType}`);
+      return;
+    }
+    if (resource.text && !/^<div xmlns="http:\/\/www\.w3\.org\/1999\/xhtml">/.test(resource.text.div || '')) {
+      errors.push(`entry[${i}].resource.text.div must be an XHTML div`);
+    }
+    rules(resource).filter(Boolean).forEach(message => {
+      errors.push(`entry[${i}] ${resource.resourceType}: ${message}`);
+    });
+
+    const refs = [resource.patient, resource.subject].filter(Boolean);
+    refs.forEach(ref => {
+      if (!fullUrls.has(ref.reference)) {
+        errors.push(`entry[${i}] ${resource.resourceType}: reference ${ref.reference} does not resolve in the Bundle`);
+      }
+    });
+  });
+
+  return errors;
+}
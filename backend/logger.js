@@ -0,0 +1,105 @@
+// Logger - Structured JSON logs with levels and PHI redaction
+// File: backend/logger.js
+//
+// One JSON object per line: { time, level, msg, ...fields }. Bind the
+// interactionId with logger.child({ interactionId }) so every line of a session
+// can be correlated. Fields that can hold patient information are redacted
+// unless LOG_PHI=1 is set for local debugging. Credentials are always redacted.
+
+// Loaded here as well so LOG_LEVEL and LOG_PHI from .env apply to the first lines
+import 'dotenv/config';
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Keys whose values may contain patient health information
+const PHI_KEYS = new Set([
+  'text',
+  'transcript',
+  'facts',
+  'sections',
+  'context',
+  'fileName',
+  'patient',
+  'patientIdentifier'
+]);
+
+// Keys that are never logged, whatever the mode
+const SECRET_KEYS = new Set([
+  'password',
+  'passwordHash',
+  'token',
+  'authorization',
+  'clientSecret'
+]);
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+const configuredLevel = (process.env.LOG_LEVEL || 'info').toLowerCase();
+const minLevel = LEVELS[configuredLevel] ?? LEVELS.info;
+
+// PHI in logs is a local debugging aid only; refused in production
+const wantsPhi = process.env.LOG_PHI === '1';
+const isPhiLogged = wantsPhi && process.env.NODE_ENV !== 'production';
+
+const serializeError = (err) => ({
+  name: err.name,
+  message: err.message,
+  ...(err.statusCode && { statusCode: err.statusCode }),
+  ...(err.code && { code: err.code }),
+  ...(err.stack && { stack: err.stack })
+});
+
+const redact = (value, depth = 0) => {
+  if (value instanceof Error) return serializeError(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => {
+    if (SECRET_KEYS.has(key)) return [key, REDACTED];
+    if (PHI_KEYS.has(key) && !isPhiLogged) return [key, REDACTED];
+    return [key, redact(field, depth + 1)];
+  }));
+};
+
+const write = (level, bindings, msg, fields) => {
+  if (LEVELS[level] < minLevel) return;
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...redact({ ...bindings, ...fields })
+  };
+
+  let line;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ time: entry.time, level, msg, logError: 'Unserializable fields' });
+  }
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+function createLogger(bindings = {}) {
+  return {
+    debug: (msg, fields) => write('debug', bindings, msg, fields),
+    info: (msg, fields) => write('info', bindings, msg, fields),
+    warn: (msg, fields) => write('warn', bindings, msg, fields),
+    error: (msg, fields) => write('error', bindings, msg, fields),
+    // A logger whose lines all carry `extra`, e.g. { interactionId }
+    child: (extra) => createLogger({ ...bindings, ...extra })
+  };
+}
+
+export const logger = createLogger();
+
+if (!LEVELS[configuredLevel]) {
+  logger.warn('Unknown LOG_LEVEL, using info', { logLevel: process.env.LOG_LEVEL });
+}
+if (isPhiLogged) {
+  logger.warn('LOG_PHI is enabled: transcript, fact and document text will be logged. Use for local debugging only.');
+} else if (wantsPhi) {
+  logger.warn('LOG_PHI is ignored when NODE_ENV=production');
+}
@@ -0,0 +1,479 @@
+// Mock Corti Client - Offline stand-in for the SDK surface this backend uses
+// File: backend/mockCorti.js
+//
+// Enabled with CORTI_MOCK=1. Interactions, facts and documents live in memory,
+// templates are a small fixed set, and stream.connect replays the scripted
+// consultation in fixtures/mockConversation.json while audio is flowing.
+// transcribe.connect does the same with the dictation in
+// fixtures/mockDictation.json, including its spoken commands.
+
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const readFixture = (name) =>
+  JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8'));
+
+const conversation = readFixture('mockConversation.json');
+const dictation = readFixture('mockDictation.json');
+
+const LATENCY_MS = 150;
+const TURN_INTERVAL_MS = 2000;
+// No audio for this long counts as a pause; turns wait for audio to resume
+const AUDIO_IDLE_MS = 1000;
+const SECONDS_PER_WORD = 0.4;
+const CREDITS_PER_TURN = 0.0025;
+const CREDITS_PER_DOCUMENT = 0.01;
+
+const MOCK_TEMPLATES = [
+  {
+    key: 'corti-soap',
+    name: 'SOAP Note',
+    description: 'Subjective, objective, assessment and plan',
+    sections: [
+      { key: 'corti-subjective', name: 'Subjective', groups: ['chief-complaint', 'history-of-present-illness', 'review-of-systems', 'past-medical-history', 'medications-prior-to-visit', 'allergies', 'social-history', 'family-history'] },
+      { key: 'corti-objective', name: 'Objective', groups: ['vital-signs', 'physical-exam'] },
+      { key: 'corti-assessment', name: 'Assessment', groups: ['assessment'] },
+      { key: 'corti-plan', name: 'Plan', groups: ['plan'] }
+    ]
+  },
+  {
+    key: 'corti-referral',
+    name: 'Referral Letter',
+    description: 'Letter to a specialist with the reason for referral',
+    sections: [
+      { key: 'corti-reason-for-referral', name: 'Reason for Referral', groups: ['chief-complaint', 'assessment'] },
+      { key: 'corti-relevant-history', name: 'Relevant History', groups: ['history-of-present-illness', 'past-medical-history', 'medications-prior-to-visit', 'allergies'] },
+      { key: 'corti-findings', name: 'Findings', groups: ['vital-signs', 'physical-exam'] },
+      { key: 'corti-request', name: 'Request', groups: ['plan'] }
+    ]
+  },
+  {
+    key: 'corti-patient-summary',
+    name: 'Patient Summary',
+    description: 'Plain-language summary for the patient',
+    sections: [
+      { key: 'corti-visit-summary', name: 'Your Visit', groups: ['chief-complaint', 'assessment'] },
+      { key: 'corti-next-steps', name: 'Next Steps', groups: ['plan'] }
+    ]
+  }
+];
+
+const wait = (ms = LATENCY_MS) => new Promise(resolve => setTimeout(resolve, ms));
+
+const notFound = (what, id) => Object.assign(new Error(`${what} ${id} not found`), { statusCode: 404 });
+
+const now = () => new Date().toISOString();
+
+const findSectionDefinition = (key) =>
+  MOCK_TEMPLATES.flatMap(t => t.sections).find(section => section.key === key);
+
+const toTemplateItem = (template) => ({
+  key: template.key,
+  name: template.name,
+  description: template.description,
+  translations: [],
+  templateSections: template.sections.map((section, i) => ({
+    sort: i + 1,
+    sectionsId: { key: section.key, name: section.name, description: '', translations: [] }
+  }))
+});
+
+// Section text from the single context entry: facts are listed per group,
+// transcript and string contexts are summarised by their first lines
+const sectionText = (definition, context, outputLanguage) => {
+  const prefix = outputLanguage && outputLanguage !== 'en' ? `[${outputLanguage}] ` : '';
+  if (context.type === 'facts') {
+    const facts = context.data.filter(f => definition.groups.includes(f.group));
+    return facts.length > 0
+      ? facts.map(f => `- ${prefix}${f.text}`).join('\n')
+      : `${prefix}No relevant findings documented.`;
+  }
+  const text = context.type === 'transcript' ? context.data.text : context.data;
+  const lines = String(text).split('\n').filter(line => line.trim());
+  return `${prefix}**Summary (mock):** ${lines.slice(0, 2).join(' ').slice(0, 240)}`;
+};
+
+// Fake /stream socket with the same event and send surface as the SDK's
+function createMockStream(interactionId, configuration, store) {
+  const socket = new EventEmitter();
+  const isFactsMode = configuration?.mode?.type === 'facts';
+  const isDiarization = !!configuration?.transcription?.isDiarization;
+  const isMultichannel = !!configuration?.transcription?.isMultichannel;
+  // Script position is kept per interaction so a re-opened stream continues
+  const progress = store.progress(interactionId);
+  let turnTimer = null;
+  let lastAudioAt = 0;
+  let isOpen = true;
+  let isConfigured = false;
+
+  const emit = (message) => {
+    if (isOpen) socket.emit('message', message);
+  };
+
+  const close = () => {
+    if (!isOpen) return;
+    clearInterval(turnTimer);
+    isOpen = false;
+    setTimeout(() => socket.emit('close'), 0);
+  };
+
+  const playTurn = () => {
+    if (Date.now() - lastAudioAt > AUDIO_IDLE_MS) return;
+    const turn = conversation.turns[progress.turnIndex];
+    if (!turn) {
+      clearInterval(turnTimer);
+      return;
+    }
+    progress.turnIndex++;
+
+    const duration = turn.text.split(/\s+/).length * SECONDS_PER_WORD;
+    const segment = {
+      id: randomUUID(),
+      transcript: turn.text,
+      final: true,
+      speakerId: isDiarization ? turn.speaker : -1,
+      participant: { channel: isMultichannel ? turn.speaker : 0 },
+      time: { start: progress.elapsed, end: progress.elapsed + duration }
+    };
+    progress.elapsed += duration;
+
+    // An interim result first, then the final segment
+    const words = turn.text.split(' ');
+    emit({ type: 'transcript', data: [{ ...segment, transcript: words.slice(0, Math.ceil(words.length / 2)).join(' '), final: false }] });
+    setTimeout(() => emit({ type: 'transcript', data: [segment] }), TURN_INTERVAL_MS / 4);
+
+    if (isFactsMode && turn.facts?.length) {
+      const facts = turn.facts.map(fact => store.addFact(interactionId, { ...fact, source: 'core' }));
+      setTimeout(() => emit({ type: 'facts', fact: facts }), TURN_INTERVAL_MS / 2);
+    }
+    if (progress.turnIndex % 3 === 0) {
+      emit({ type: 'usage', credits: CREDITS_PER_TURN * 3 });
+    }
+  };
+
+  socket.sendAudio = () => {
+    if (!isOpen) throw new Error('Mock stream is closed');
+    lastAudioAt = Date.now();
+    if (isConfigured && !turnTimer) {
+      turnTimer = setInterval(playTurn, TURN_INTERVAL_MS);
+    }
+  };
+
+  socket.sendFlush = () => {
+    setTimeout(() => emit({ type: 'flushed' }), LATENCY_MS);
+  };
+
+  socket.sendEnd = () => {
+    clearInterval(turnTimer);
+    setTimeout(() => {
+      const unbilledTurns = progress.turnIndex % 3;
+      if (unbilledTurns > 0) {
+        emit({ type: 'usage', credits: CREDITS_PER_TURN * unbilledTurns });
+      }
+      emit({ type: 'ENDED' });
+      close();
+    }, LATENCY_MS);
+  };
+
+  socket.close = close;
+
+  setTimeout(() => {
+    if (!configuration?.transcription?.primaryLanguage) {
+      emit({ type: 'CONFIG_DENIED', reason: 'transcription.primaryLanguage is required' });
+      close();
+      return;
+    }
+    isConfigured = true;
+    emit({ type: 'CONFIG_ACCEPTED' });
+  }, LATENCY_MS);
+
+  return socket;
+}
+
+// Fake /transcribe socket: one utterance per interval while audio is flowing
+function createMockTranscribe(configuration) {
+  const socket = new EventEmitter();
+  const isSpokenPunctuation = configuration?.spokenPunctuation !== false;
+  let utteranceIndex = 0;
+  let elapsed = 0;
+  let timer = null;
+  let lastAudioAt = 0;
+  let isOpen = true;
+  let isConfigured = false;
+
+  const emit = (message) => {
+    if (isOpen) socket.emit('message', message);
+  };
+
+  const close = () => {
+    if (!isOpen) return;
+    clearInterval(timer);
+    isOpen = false;
+    setTimeout(() => socket.emit('close'), 0);
+  };
+
+  const playUtterance = () => {
+    if (Date.now() - lastAudioAt > AUDIO_IDLE_MS) return;
+    const utterance = dictation.utterances[utteranceIndex];
+    if (!utterance) {
+      clearInterval(timer);
+      return;
+    }
+    utteranceIndex++;
+
+    const duration = utterance.raw.split(/\s+/).length * SECONDS_PER_WORD;
+    const time = { start: elapsed, end: elapsed + duration };
+    elapsed += duration;
+
+    if (utterance.command) {
+      emit({ type: 'command', data: { id: utterance.command, variables: null, rawTranscriptText: utterance.raw, ...time } });
+    } else {
+      const text = isSpokenPunctuation ? utterance.text : utterance.raw;
+      const words = text.split(' ');
+      emit({ type: 'transcript', data: { text: words.slice(0, Math.ceil(words.length / 2)).join(' '), rawTranscriptText: utterance.raw, isFinal: false, ...time } });
+      setTimeout(() => emit({ type: 'transcript', data: { text, rawTranscriptText: utterance.raw, isFinal: true, ...time } }), TURN_INTERVAL_MS / 4);
+    }
+    if (utteranceIndex % 3 === 0) {
+      emit({ type: 'usage', credits: CREDITS_PER_TURN * 3 });
+    }
+  };
+
+  socket.sendAudio = () => {
+    if (!isOpen) throw new Error('Mock transcribe socket is closed');
+    lastAudioAt = Date.now();
+    if (isConfigured && !timer) {
+      timer = setInterval(playUtterance, TURN_INTERVAL_MS);
+    }
+  };
+
+  socket.sendFlush = () => {
+    setTimeout(() => emit({ type: 'flushed' }), LATENCY_MS);
+  };
+
+  socket.sendEnd = () => {
+    clearInterval(timer);
+    setTimeout(() => {
+      const unbilled = utteranceIndex % 3;
+      if (unbilled > 0) {
+        emit({ type: 'usage', credits: CREDITS_PER_TURN * unbilled });
+      }
+      emit({ type: 'ended' });
+      close();
+    }, LATENCY_MS);
+  };
+
+  socket.close = close;
+
+  setTimeout(() => {
+    if (!configuration?.primaryLanguage) {
+      emit({ type: 'CONFIG_DENIED', reason: 'primaryLanguage is required' });
+      close();
+      return;
+    }
+    isConfigured = true;
+    emit({ type: 'CONFIG_ACCEPTED' });
+  }, LATENCY_MS);
+
+  return socket;
+}
+
+export function createMockCorti() {
+  const interactions = new Map();
+
+  const getInteraction = (id) => {
+    const interaction = interactions.get(id);
+    if (!interaction) throw notFound('Interaction', id);
+    return interaction;
+  };
+
+  const store = {
+    progress: (interactionId) => getInteraction(interactionId).progress,
+    addFact(interactionId, { text, group, source = 'user' }) {
+      const fact = {
+        id: randomUUID(),
+        text,
+        group,
+        groupId: randomUUID(),
+        isDiscarded: false,
+        source,
+        createdAt: now(),
+        updatedAt: now()
+      };
+      getInteraction(interactionId).facts.push(fact);
+      return fact;
+    }
+  };
+
+  const createDocument = (interactionId, request) => {
+    const interaction = getInteraction(interactionId);
+    const context = request.context?.[0];
+    const definitions = request.templateKey
+      ? MOCK_TEMPLATES.find(t => t.key === request.templateKey)?.sections
+      : request.template?.sectionKeys?.map(findSectionDefinition).filter(Boolean);
+    if (!definitions?.length) {
+      throw Object.assign(new Error(`Unknown template: ${request.templateKey || request.template?.sectionKeys}`), { statusCode: 400 });
+    }
+
+    const timestamp = now();
+    const document = {
+      id: randomUUID(),
+      name: request.name || 'Generated Document',
+      templateRef: request.templateKey || 'dynamic',
+      isStream: false,
+      sections: definitions.map((definition, i) => ({
+        key: definition.key,
+        name: definition.name,
+        text: sectionText(definition, context, request.outputLanguage),
+        sort: i + 1,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      })),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      outputLanguage: request.outputLanguage,
+      usageInfo: { creditsConsumed: CREDITS_PER_DOCUMENT }
+    };
+    interaction.documents.push(document);
+    return document;
+  };
+
+  // Interaction as the API returns it, without the mock's own bookkeeping
+  const toInteraction = ({ facts, documents, progress, ...interaction }) => interaction;
+
+  const getDocument = (interactionId, documentId) => {
+    const document = getInteraction(interactionId).documents.find(d => d.id === documentId);
+    if (!document) throw notFound('Document', documentId);
+    return document;
+  };
+
+  return {
+    interactions: {
+      async create(request = {}) {
+        await wait();
+        const id = randomUUID();
+        const timestamp = now();
+        interactions.set(id, {
+          id,
+          assignedUserId: null,
+          encounter: { period: { startedAt: timestamp }, ...request.encounter },
+          patient: request.patient || {},
+          createdAt: timestamp,
+          updatedAt: timestamp,
+          endedAt: null,
+          websocketUrl: `wss://mock.corti.local/interactions/${id}/streams`,
+          facts: [],
+          documents: [],
+          progress: { turnIndex: 0, elapsed: 0 }
+        });
+        return { interactionId: id, websocketUrl: interactions.get(id).websocketUrl };
+      },
+      async get(id) {
+        await wait();
+        return toInteraction(getInteraction(id));
+      },
+      async list() {
+        await wait();
+        const data = Array.from(interactions.values()).map(toInteraction);
+        return { data, async *[Symbol.asyncIterator]() { yield* data; } };
+      },
+      async update(id, request = {}) {
+        await wait();
+        const interaction = getInteraction(id);
+        Object.assign(interaction, {
+          encounter: { ...interaction.encounter, ...request.encounter },
+          patient: { ...interaction.patient, ...request.patient },
+          updatedAt: now()
+        });
+        return toInteraction(interaction);
+      },
+      async delete(id) {
+        await wait();
+        getInteraction(id);
+        interactions.delete(id);
+      }
+    },
+
+    templates: {
+      async list() {
+        await wait();
+        return { data: MOCK_TEMPLATES.map(toTemplateItem) };
+      },
+      async get(key) {
+        await wait();
+        const template = MOCK_TEMPLATES.find(t => t.key === key);
+        if (!template) throw notFound('Template', key);
+        return toTemplateItem(template);
+      }
+    },
+
+    facts: {
+      async list(interactionId) {
+        await wait();
+        return { facts: getInteraction(interactionId).facts };
+      },
+      async create(interactionId, request) {
+        await wait();
+        return { facts: request.facts.map(fact => store.addFact(interactionId, fact)) };
+      },
+      async update(interactionId, factId, request = {}) {
+        await wait();
+        const fact = getInteraction(interactionId).facts.find(f => f.id === factId);
+        if (!fact) throw notFound('Fact', factId);
+        Object.assign(fact, request, { updatedAt: now() });
+        return fact;
+      }
+    },
+
+    documents: {
+      async create(interactionId, request) {
+        await wait(LATENCY_MS * 4);
+        return createDocument(interactionId, request);
+      },
+      async list(interactionId) {
+        await wait();
+        return { data: getInteraction(interactionId).documents };
+      },
+      async get(interactionId, documentId) {
+        await wait();
+        return getDocument(interactionId, documentId);
+      },
+      async update(interactionId, documentId, request = {}) {
+        await wait();
+        const document = getDocument(interactionId, documentId);
+        (request.sections || []).forEach(update => {
+          const section = document.sections.find(s => s.key === update.key);
+          if (section) Object.assign(section, update, { updatedAt: now() });
+        });
+        if (request.name !== undefined) document.name = request.name;
+        document.updatedAt = now();
+        return document;
+      },
+      async delete(interactionId, documentId) {
+        await wait();
+        const interaction = getInteraction(interactionId);
+        getDocument(interactionId, documentId);
+        interaction.documents = interaction.documents.filter(d => d.id !== documentId);
+      }
+    },
+
+    stream: {
+      async connect({ id, configuration }) {
+        await wait();
+        getInteraction(id);
+        return createMockStream(id, configuration, store);
+      }
+    },
+
+    transcribe: {
+      async connect({ configuration }) {
+        await wait();
+        return createMockTranscribe(configuration);
+      }
+    }
+  };
+}
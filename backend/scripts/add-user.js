@@ -0,0 +1,50 @@
+// Add User - Create or update a local login in data/users.json
+// File: backend/scripts/add-user.js
+//
+// Run with `npm run user:add -- <username> <password> [role]`. The role is
+// `clinician` (default) or `auditor`. An existing user keeps its ID, so the
+// interactions it owns stay accessible after a password change.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { hashPassword, readUsers, ROLES, USERS_FILE } from '../auth.js';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const [username, password, role = 'clinician'] = process.argv.slice(2);
+
+if (!username || !password) {
+  console.error('Usage: npm run user:add -- <username> <password> [role]');
+  process.exit(1);
+}
+if (!ROLES.includes(role)) {
+  console.error(`Role must be one of: ${ROLES.join(', ')}`);
+  process.exit(1);
+}
+if (!/^[A-Za-z0-9._-]+$/.test(username)) {
+  console.error('Usernames may only contain letters, digits, ".", "_" and "-"');
+  process.exit(1);
+}
+if (password.length < MIN_PASSWORD_LENGTH) {
+  console.error(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  process.exit(1);
+}
+
+const users = readUsers();
+const existing = users.find(u => u.username === username);
+const user = {
+  id: existing?.id || crypto.randomUUID(),
+  username,
+  passwordHash: hashPassword(password),
+  role,
+  createdAt: existing?.createdAt || new Date().toISOString()
+};
+
+const updated = existing
+  ? users.map(u => (u.username === username ? user : u))
+  : [...users, user];
+
+fs.mkdirSync(path.dirname(USERS_FILE), { recursive: true });
+fs.writeFileSync(USERS_FILE, JSON.stringify({ users: updated }, null, 2), { mode: 0o600 });
+console.log(`${existing ? 'Updated' : 'Added'} ${role} ${username} (${user.id})`);
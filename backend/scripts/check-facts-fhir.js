@@ -0,0 +1,80 @@
+// Facts FHIR Check - Map the fixture facts and validate the resulting Bundle
+// File: backend/scripts/check-facts-fhir.js
+//
+// Run with `npm run check:fhir`. Fails if any fact group is missing from the
+// fixtures, a fact is not represented in the Bundle, a vital sign reading
+// doesn't come out as expected, or validation fails.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  factsToFhirBundle,
+  validateFhirBundle,
+  FACT_GROUP_LABELS,
+  STRUCTURED_GROUPS
+} from '../factsFhir.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const fixtures = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'facts.json'), 'utf8'));
+
+// Readings the fixture vitals must produce: a value and UCUM code, or the
+// [systolic, diastolic] components of a blood pressure
+const EXPECTED_VITALS = {
+  'fixture-vitals-bp': { components: [132, 84] },
+  'fixture-vitals-hr': { value: 88, code: '/min' },
+  'fixture-vitals-temp': { value: 38, code: 'Cel' },
+  'fixture-vitals-spo2': { value: 98, code: '%' },
+  'fixture-vitals-spo2-abbreviated': { value: 97, code: '%' },
+  'fixture-vitals-o2-sat': { value: 95, code: '%' },
+  'fixture-vitals-pulse-ox': { value: 94, code: '%' },
+  'fixture-vitals-spo2-pulse-oximetry': { value: 96, code: '%' },
+  'fixture-vitals-height': { value: 177.8, code: 'cm' },
+  'fixture-vitals-height-inches': { value: 177.8, code: 'cm' }
+};
+
+const problems = [];
+
+const missingGroups = Object.keys(FACT_GROUP_LABELS).filter(group => !fixtures.some(f => f.group === group));
+missingGroups.forEach(group => problems.push(`No fixture for fact group: ${group}`));
+
+const bundle = factsToFhirBundle(fixtures, { interactionId: 'fixture-interaction' });
+validateFhirBundle(bundle).forEach(error => problems.push(`Validation: ${error}`));
+
+const resources = bundle.entry.map(e => e.resource);
+const composition = resources.find(r => r.resourceType === 'Composition');
+
+fixtures.forEach(fact => {
+  const structuredType = STRUCTURED_GROUPS[fact.group];
+  const mapped = structuredType
+    ? resources.find(r => Array.isArray(r.identifier) && r.identifier.some(id => id.value === fact.id))
+    : composition?.section.find(s => s.code.text === fact.group && s.text.div.includes(fact.text));
+
+  if (fact.isDiscarded && mapped) {
+    problems.push(`Discarded fact ${fact.id} was exported`);
+  } else if (!fact.isDiscarded && !mapped) {
+    problems.push(`Fact ${fact.id} (${fact.group}) is missing from the Bundle`);
+  } else if (mapped && structuredType && mapped.resourceType !== structuredType) {
+    problems.push(`Fact ${fact.id} mapped to ${mapped.resourceType}, expected ${structuredType}`);
+  }
+});
+
+Object.entries(EXPECTED_VITALS).forEach(([id, expected]) => {
+  const observation = resources.find(r => r.resourceType === 'Observation' && r.identifier.some(i => i.value === id));
+  const actual = expected.components
+    ? observation?.component?.map(c => c.valueQuantity.value)
+    : observation?.valueQuantity && [observation.valueQuantity.value, observation.valueQuantity.code];
+  const wanted = expected.components || [expected.value, expected.code];
+  if (JSON.stringify(actual) !== JSON.stringify(wanted)) {
+    problems.push(`Vital ${id}: expected ${wanted.join(' ')}, got ${actual ? actual.join(' ') : 'no value'}`);
+  }
+});
+
+const counts = resources.reduce((acc, r) => ({ ...acc, [r.resourceType]: (acc[r.resourceType] || 0) + 1 }), {});
+console.log('Bundle resources:', counts);
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.error(`✗ ${problem}`));
+  process.exit(1);
+}
+console.log(`✓ ${fixtures.length} fixture facts across ${Object.keys(FACT_GROUP_LABELS).length} groups mapped and validated`);
@@ -2,51 +2,272 @@
 
 import express from 'express';
 import cors from 'cors';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
 import http from 'http';
 import { WebSocketServer } from 'ws';
 
 // Import modules
-import corti from './cortiClient.js';
-import { handleAmbientConnection } from './ambientStream.js';
+import corti, { isMockMode } from './cortiClient.js';
+import { handleAmbientConnection, isSessionActive } from './ambientStream.js';
+import { handleDictationConnection } from './dictationStream.js';
+import { validateDocumentContext, validateDocumentSections, validateBatchItems } from './documentContext.js';
+import { startDocumentBatch, listDocumentBatches, getDocumentBatch, retryBatchItem } from './documentBatch.js';
+import { buildInteractionUpdate, toStoredEncounter, ENCOUNTER_STATUSES } from './encounter.js';
+import { uploadAudio, registerUpload, initUploads } from './audioUpload.js';
+import { exportDocument, EXPORT_FORMATS } from './documentExport.js';
+import { factsToFhirBundle, validateFhirBundle } from './factsFhir.js';
+import { initAuth, login, logout, requireAuth, requireRole, acceptQueryToken, authenticateUpgrade } from './auth.js';
+import { logger } from './logger.js';
+import { recordAudit, queryAudit, verifyAuditChain, auditEntriesToCsv, AUDIT_ACTIONS } from './auditLog.js';
+import { recordUsage, queryUsage, getDailyUsage, budgetStatus, BUDGETS, USAGE_GROUPS } from './usageLedger.js';
+import { initAudioArchive, getArchivedAudio, deleteAudioArchive } from './audioArchive.js';
+import {
+  listSessions,
+  getSession,
+  deleteSession,
+  updateSession,
+  addDocument,
+  removeDocument,
+  addUsage,
+  upsertFacts
+} from './sessionStore.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+initAuth();
+initUploads();
+initAudioArchive();
 
 const app = express();
 
 // CORS configuration
 app.use(cors({
   origin: ['http://localhost:5173', 'http://127.0.0.1:5173'],
-  methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type'],
+  methods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
 }));
 app.use(express.json());
 
+// Request logger; narrowed to the user and interaction once those are known
+app.use((req, res, next) => {
+  req.log = logger;
+  next();
+});
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ 
     status: 'healthy', 
-    environment: process.env.ENVIRONMENT,
+    environment: isMockMode ? 'mock' : process.env.ENVIRONMENT,
+    mock: isMockMode,
     tenantName: process.env.TENANT_NAME 
   });
 });
 
+// ============================================
+// Auth API
+// ============================================
+
+// Exchange a username and password for a bearer token
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { username, password } = req.body || {};
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return res.status(400).json({ error: 'username and password are required' });
+    }
+
+    const result = await login(username, password);
+    if (!result) {
+      req.log.warn('Failed login', { username });
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    req.log.info('User logged in', { userId: result.user.id });
+    res.json(result);
+  } catch (err) {
+    req.log.error('Failed to log in', { err });
+    res.status(500).json({ error: 'Failed to log in', details: err.message });
+  }
+});
+
+// The audio player loads recordings without an Authorization header
+app.get('/api/interactions/:id/audio', acceptQueryToken);
+
+// Everything below requires a bearer token
+app.use('/api', requireAuth, (req, res, next) => {
+  req.log = req.log.child({ userId: req.user.id });
+  next();
+});
+
+app.get('/api/auth/me', (req, res) => {
+  res.json({ user: req.user });
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  logout(req.token);
+  res.json({ success: true });
+});
+
+// Interactions and their session records belong to the user who recorded
+// them; other users' IDs are rejected before any Corti call is made
+const requireInteractionOwner = (req, res, next) => {
+  let session;
+  try {
+    session = getSession(req.params.id);
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
+  if (!session) {
+    return res.status(404).json({ error: 'Interaction not found' });
+  }
+  if (session.owner !== req.user.id) {
+    recordAudit({
+      actor: req.user,
+      action: 'interaction.access',
+      interactionId: req.params.id,
+      outcome: 'denied',
+      details: { method: req.method, path: req.originalUrl.split('?')[0] }
+    });
+    return res.status(403).json({ error: 'Access denied' });
+  }
+  req.log = req.log.child({ interactionId: req.params.id });
+  next();
+};
+
+app.use(['/api/interactions/:id', '/api/sessions/:id'], requireInteractionOwner);
+
+// ============================================
+// Interactions API
+// ============================================
+
+const DEFAULT_INTERACTION_LIMIT = 20;
+const MAX_INTERACTION_LIMIT = 100;
+
+// Normalize an SDK interaction to the shape returned by the API
+const toClientInteraction = (interaction) => ({
+  interactionId: interaction.id,
+  encounter: {
+    identifier: interaction.encounter?.identifier ?? null,
+    status: interaction.encounter?.status ?? null,
+    type: interaction.encounter?.type ?? null,
+    title: interaction.encounter?.title ?? null,
+    startedAt: interaction.encounter?.period?.startedAt ?? null,
+    endedAt: interaction.encounter?.period?.endedAt ?? null
+  },
+  patient: interaction.patient?.identifier ? { identifier: interaction.patient.identifier } : null,
+  createdAt: interaction.createdAt,
+  updatedAt: interaction.updatedAt,
+  endedAt: interaction.endedAt ?? null
+});
+
+// An interaction deleted from Corti behind our back is skipped, not an error
+const fetchInteraction = async (interactionId) => {
+  try {
+    return toClientInteraction(await corti.interactions.get(interactionId));
+  } catch (err) {
+    if (err.statusCode === 404) return null;
+    throw err;
+  }
+};
+
+// List the user's interactions, newest first (?status=&limit=). Which ones
+// are theirs comes from the session records; the encounter comes from Corti.
+app.get('/api/interactions', async (req, res) => {
+  const { status } = req.query;
+  const limit = req.query.limit === undefined ? DEFAULT_INTERACTION_LIMIT : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_INTERACTION_LIMIT) {
+    return res.status(400).json({ error: `limit must be an integer from 1 to ${MAX_INTERACTION_LIMIT}` });
+  }
+  if (status !== undefined && !ENCOUNTER_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of: ${ENCOUNTER_STATUSES.join(', ')}` });
+  }
+
+  try {
+    const ids = listSessions(req.user.id).map(session => session.interactionId);
+    const interactions = [];
+    // One batch of `limit` lookups at a time until the page is full
+    for (let i = 0; i < ids.length && interactions.length < limit; i += limit) {
+      const batch = await Promise.all(ids.slice(i, i + limit).map(fetchInteraction));
+      interactions.push(...batch.filter(interaction => interaction && (!status || interaction.encounter.status === status)));
+    }
+    res.json({ interactions: interactions.slice(0, limit) });
+  } catch (err) {
+    req.log.error('Failed to list interactions', { err });
+    res.status(500).json({ error: 'Failed to list interactions', details: err.message });
+  }
+});
+
+// Get an interaction with its encounter and patient reference
+app.get('/api/interactions/:id', async (req, res) => {
+  try {
+    const interaction = await fetchInteraction(req.params.id);
+    if (!interaction) {
+      return res.status(404).json({ error: 'Interaction not found' });
+    }
+    recordAudit({ actor: req.user, action: 'interaction.view', interactionId: req.params.id, outcome: 'success' });
+    res.json(interaction);
+  } catch (err) {
+    req.log.error('Failed to fetch interaction', { err });
+    recordAudit({ actor: req.user, action: 'interaction.view', interactionId: req.params.id, outcome: 'failure' });
+    res.status(500).json({ error: 'Failed to fetch interaction', details: err.message });
+  }
+});
+
+// Correct the encounter (identifier, type, title, status) or the patient reference
+app.patch('/api/interactions/:id', async (req, res) => {
+  const { update, error } = buildInteractionUpdate(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const interaction = toClientInteraction(await corti.interactions.update(req.params.id, update));
+    const { encounter, patient } = interaction;
+    updateSession(req.params.id, { encounter: toStoredEncounter(encounter, patient) });
+    recordAudit({
+      actor: req.user,
+      action: 'interaction.update',
+      interactionId: req.params.id,
+      outcome: 'success',
+      details: { fields: [...Object.keys(update.encounter || {}), ...(update.patient ? ['patient'] : [])] }
+    });
+    res.json(interaction);
+  } catch (err) {
+    req.log.error('Failed to update interaction', { err });
+    recordAudit({ actor: req.user, action: 'interaction.update', interactionId: req.params.id, outcome: 'failure' });
+    res.status(500).json({ error: 'Failed to update interaction', details: err.message });
+  }
+});
+
+// Delete the interaction from Corti, with its session record and archived audio
+app.delete('/api/interactions/:id', async (req, res) => {
+  if (isSessionActive(req.params.id)) {
+    return res.status(409).json({ error: 'The session is still recording; stop it first' });
+  }
+
+  try {
+    await corti.interactions.delete(req.params.id);
+    await deleteSession(req.params.id);
+    await deleteAudioArchive(req.params.id);
+    recordAudit({ actor: req.user, action: 'interaction.delete', interactionId: req.params.id, outcome: 'success' });
+    res.json({ success: true });
+  } catch (err) {
+    req.log.error('Failed to delete interaction', { err });
+    recordAudit({ actor: req.user, action: 'interaction.delete', interactionId: req.params.id, outcome: 'failure' });
+    res.status(500).json({ error: 'Failed to delete interaction', details: err.message });
+  }
+});
+
 // ============================================
 // Templates API
 // ============================================
 
-// List available templates
+// List available templates, optionally filtered by language (?lang=de)
 app.get('/api/templates', async (req, res) => {
   try {
-    console.log('Fetching templates...');
-    const response = await corti.templates.list();
-    console.log('Templates fetched:', response?.templates?.length || 0);
+    const { lang } = req.query;
+    req.log.info('Fetching templates', { lang });
+    const response = await corti.templates.list(lang ? { lang } : {});
+    req.log.info('Templates fetched', { count: response?.data?.length || 0 });
     res.json(response);
   } catch (err) {
-    console.error('Failed to fetch templates:', err);
+    req.log.error('Failed to fetch templates', { err });
     res.status(500).json({ error: 'Failed to fetch templates', details: err.message });
   }
 });
@@ -55,44 +276,187 @@ app.get('/api/templates', async (req, res) => {
 app.get('/api/templates/:key', async (req, res) => {
   try {
     const { key } = req.params;
-    console.log(`Fetching template: ${key}`);
+    req.log.info('Fetching template', { templateKey: key });
     const response = await corti.templates.get(key);
     res.json(response);
   } catch (err) {
-    console.error('Failed to fetch template:', err);
+    req.log.error('Failed to fetch template', { err });
     res.status(500).json({ error: 'Failed to fetch template', details: err.message });
   }
 });
 
+// ============================================
+// Facts API
+// ============================================
+
+// Normalize an SDK fact to the shape streamed to the client
+const toClientFact = (f) => ({
+  id: f.id,
+  text: f.text,
+  group: f.group,
+  groupId: f.groupId,
+  isDiscarded: f.isDiscarded,
+  source: f.source,
+  createdAt: f.createdAt,
+  updatedAt: f.updatedAt
+});
+
+// List facts for an interaction
+app.get('/api/interactions/:id/facts', async (req, res) => {
+  try {
+    const { id } = req.params;
+    req.log.info('Listing facts');
+    const response = await corti.facts.list(id);
+    res.json({ facts: (response?.facts || []).map(toClientFact) });
+  } catch (err) {
+    req.log.error('Failed to list facts', { err });
+    res.status(500).json({ error: 'Failed to list facts', details: err.message });
+  }
+});
+
+// Export the current (non-discarded) facts as a FHIR R4 Bundle
+app.get('/api/interactions/:id/facts/fhir', async (req, res) => {
+  try {
+    const { id } = req.params;
+    req.log.info('Exporting facts as FHIR');
+    const response = await corti.facts.list(id);
+    const bundle = factsToFhirBundle((response?.facts || []).map(toClientFact), { interactionId: id });
+
+    const errors = validateFhirBundle(bundle);
+    if (errors.length > 0) {
+      req.log.error('FHIR bundle failed validation', { errors });
+      return res.status(500).json({ error: 'Generated FHIR bundle failed validation', details: errors.join('; ') });
+    }
+
+    res.type('application/fhir+json').send(JSON.stringify(bundle, null, 2));
+  } catch (err) {
+    req.log.error('Failed to export facts as FHIR', { err });
+    res.status(500).json({ error: 'Failed to export facts as FHIR', details: err.message });
+  }
+});
+
+// Add a clinician-entered fact
+app.post('/api/interactions/:id/facts', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { text, group } = req.body;
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return res.status(400).json({ error: 'text is required' });
+    }
+    if (typeof group !== 'string' || !group.trim()) {
+      return res.status(400).json({ error: 'group is required' });
+    }
+
+    req.log.info('Adding fact', { group });
+    const response = await corti.facts.create(id, {
+      facts: [{ text: text.trim(), group, source: 'user' }]
+    });
+
+    const fact = response?.facts?.[0];
+    if (!fact) {
+      return res.status(502).json({ error: 'Fact was not created' });
+    }
+    const created = toClientFact(fact);
+    upsertFacts(id, [created]);
+    res.json(created);
+  } catch (err) {
+    req.log.error('Failed to create fact', { err });
+    res.status(500).json({ error: 'Failed to create fact', details: err.message });
+  }
+});
+
+// Edit, discard or restore a fact
+app.patch('/api/interactions/:id/facts/:factId', async (req, res) => {
+  try {
+    const { id, factId } = req.params;
+    const { text, group, isDiscarded } = req.body;
+
+    if (text !== undefined && (typeof text !== 'string' || !text.trim())) {
+      return res.status(400).json({ error: 'text must be a non-empty string' });
+    }
+    if (group !== undefined && (typeof group !== 'string' || !group.trim())) {
+      return res.status(400).json({ error: 'group must be a non-empty string' });
+    }
+    if (isDiscarded !== undefined && typeof isDiscarded !== 'boolean') {
+      return res.status(400).json({ error: 'isDiscarded must be a boolean' });
+    }
+    if (text === undefined && group === undefined && isDiscarded === undefined) {
+      return res.status(400).json({ error: 'Provide at least one of text, group or isDiscarded' });
+    }
+
+    req.log.info('Updating fact', { factId });
+    const response = await corti.facts.update(id, factId, {
+      ...(text !== undefined && { text: text.trim() }),
+      ...(group !== undefined && { group }),
+      ...(isDiscarded !== undefined && { isDiscarded }),
+      source: 'user'
+    });
+
+    const updated = toClientFact(response);
+    upsertFacts(id, [updated]);
+    res.json(updated);
+  } catch (err) {
+    req.log.error('Failed to update fact', { err });
+    res.status(500).json({ error: 'Failed to update fact', details: err.message });
+  }
+});
+
 // ============================================
 // Documents API
 // ============================================
 
+// Audit trail entry for a document route; IDs come from the route params
+const auditDocument = (req, action, outcome, { documentId = req.params.documentId ?? null, details = null } = {}) =>
+  recordAudit({ actor: req.user, action, interactionId: req.params.id, documentId, outcome, details });
+
+// Generation is refused once the user's daily credit budget is used up
+const requireDailyBudget = (req, res, next) => {
+  const status = budgetStatus('daily', getDailyUsage(req.user.id));
+  if (status?.state === 'exceeded') {
+    req.log.warn('Daily credit budget exceeded, generation refused', status);
+    return res.status(429).json({
+      error: `Daily credit budget reached (${status.used.toFixed(4)} of ${status.limit} credits used today)`
+    });
+  }
+  next();
+};
+
+// Credits reported by Corti for a generated document, in the ledger and the session record
+const recordDocumentUsage = (req, kind, document) => {
+  const credits = document?.usageInfo?.creditsConsumed;
+  if (!credits) return;
+  recordUsage({ user: req.user, interactionId: req.params.id, kind, credits, documentId: document.id ?? null });
+  addUsage(req.params.id, credits);
+};
+
 // List documents for an interaction
 app.get('/api/interactions/:id/documents', async (req, res) => {
   try {
     const { id } = req.params;
-    console.log(`Listing documents for interaction: ${id}`);
+    req.log.info('Listing documents');
     const response = await corti.documents.list(id);
+    auditDocument(req, 'document.list', 'success', { details: { count: response?.data?.length ?? 0 } });
     res.json(response);
   } catch (err) {
-    console.error('Failed to list documents:', err);
+    req.log.error('Failed to list documents', { err });
+    auditDocument(req, 'document.list', 'failure', { details: { error: err.message } });
     res.status(500).json({ error: 'Failed to list documents', details: err.message });
   }
 });
 
 // Create document from transcript or facts
-app.post('/api/interactions/:id/documents', async (req, res) => {
+app.post('/api/interactions/:id/documents', requireDailyBudget, async (req, res) => {
   try {
     const { id } = req.params;
     const { context, templateKey, outputLanguage, name } = req.body;
 
-    console.log(`Creating document for interaction: ${id}`);
-    console.log('Request body:', JSON.stringify({ templateKey, outputLanguage, name, contextType: context?.[0]?.type }));
+    req.log.info('Creating document', { templateKey, outputLanguage, contextType: context?.[0]?.type });
 
     // Validate required fields
-    if (!context || !Array.isArray(context) || context.length === 0) {
-      return res.status(400).json({ error: 'Context is required and must be a non-empty array' });
+    const contextError = validateDocumentContext(context);
+    if (contextError) {
+      return res.status(400).json({ error: contextError });
     }
     if (!templateKey) {
       return res.status(400).json({ error: 'templateKey is required' });
@@ -108,10 +472,17 @@ app.post('/api/interactions/:id/documents', async (req, res) => {
       name: name || 'Generated Document'
     });
 
-    console.log('Document created successfully:', response?.id);
+    req.log.info('Document created', { documentId: response?.id });
+    addDocument(id, response);
+    recordDocumentUsage(req, 'document', response);
+    auditDocument(req, 'document.create', 'success', {
+      documentId: response?.id ?? null,
+      details: { templateKey, outputLanguage, contextType: context[0].type }
+    });
     res.json(response);
   } catch (err) {
-    console.error('Failed to create document:', err);
+    req.log.error('Failed to create document', { err });
+    auditDocument(req, 'document.create', 'failure', { details: { error: err.message } });
     res.status(500).json({ error: 'Failed to create document', details: err.message });
   }
 });
@@ -120,58 +491,499 @@ app.post('/api/interactions/:id/documents', async (req, res) => {
 app.get('/api/interactions/:id/documents/:documentId', async (req, res) => {
   try {
     const { id, documentId } = req.params;
-    console.log(`Fetching document ${documentId} for interaction: ${id}`);
+    req.log.info('Fetching document', { documentId });
     const response = await corti.documents.get(id, documentId);
+    auditDocument(req, 'document.view', 'success');
     res.json(response);
   } catch (err) {
-    console.error('Failed to fetch document:', err);
+    req.log.error('Failed to fetch document', { err });
+    auditDocument(req, 'document.view', 'failure', { details: { error: err.message } });
     res.status(500).json({ error: 'Failed to fetch document', details: err.message });
   }
 });
 
+// Export a document as PDF, DOCX, Markdown or a FHIR document Bundle
+app.get('/api/interactions/:id/documents/:documentId/export', async (req, res) => {
+  try {
+    const { id, documentId } = req.params;
+    const format = String(req.query.format || '');
+
+    if (!EXPORT_FORMATS[format]) {
+      return res.status(400).json({
+        error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`
+      });
+    }
+
+    req.log.info('Exporting document', { documentId, format });
+    const document = await corti.documents.get(id, documentId);
+    const { body, contentType, filename } = await exportDocument(document, format, { interactionId: id });
+
+    auditDocument(req, 'document.export', 'success', { details: { format } });
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(body);
+  } catch (err) {
+    req.log.error('Failed to export document', { err });
+    auditDocument(req, 'document.export', 'failure', { details: { format: req.query.format, error: err.message } });
+    res.status(500).json({ error: 'Failed to export document', details: err.message });
+  }
+});
+
+// Save clinician edits to a document's sections
+app.patch('/api/interactions/:id/documents/:documentId', async (req, res) => {
+  try {
+    const { id, documentId } = req.params;
+    const { name, sections } = req.body;
+
+    const sectionsError = validateDocumentSections(sections);
+    if (sectionsError) {
+      return res.status(400).json({ error: sectionsError });
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      return res.status(400).json({ error: 'name must be a string' });
+    }
+
+    req.log.info('Updating document sections', { documentId, sectionCount: sections.length });
+    const response = await corti.documents.update(id, documentId, {
+      ...(name !== undefined && { name }),
+      sections: sections.map(({ key, name, text, sort }) => ({ key, name, text, sort }))
+    });
+
+    addDocument(id, response);
+    auditDocument(req, 'document.update', 'success', { details: { sectionKeys: sections.map(s => s.key) } });
+    res.json(response);
+  } catch (err) {
+    req.log.error('Failed to update document', { err });
+    auditDocument(req, 'document.update', 'failure', { details: { error: err.message } });
+    res.status(500).json({ error: 'Failed to update document', details: err.message });
+  }
+});
+
+// Regenerate a single section from the current context. The section is built
+// as a one-section document, which is deleted once its text has been read.
+app.post('/api/interactions/:id/sections/:sectionKey/generate', requireDailyBudget, async (req, res) => {
+  try {
+    const { id, sectionKey } = req.params;
+    const { context, outputLanguage } = req.body;
+
+    const contextError = validateDocumentContext(context);
+    if (contextError) {
+      return res.status(400).json({ error: contextError });
+    }
+    if (!outputLanguage) {
+      return res.status(400).json({ error: 'outputLanguage is required' });
+    }
+
+    req.log.info('Regenerating section', { sectionKey });
+    const draft = await corti.documents.create(id, {
+      context,
+      template: { sectionKeys: [sectionKey] },
+      outputLanguage,
+      name: `Section regeneration: ${sectionKey}`
+    });
+    recordDocumentUsage(req, 'section', draft);
+
+    corti.documents.delete(id, draft.id).catch(err => {
+      req.log.error('Failed to delete section draft document', { err });
+    });
+
+    const section = draft.sections?.find(s => s.key === sectionKey) || draft.sections?.[0];
+    if (!section) {
+      auditDocument(req, 'section.generate', 'failure', { details: { sectionKey, error: 'No section was generated' } });
+      return res.status(502).json({ error: 'No section was generated' });
+    }
+    auditDocument(req, 'section.generate', 'success', { details: { sectionKey, outputLanguage } });
+    res.json({ key: sectionKey, name: section.name, text: section.text });
+  } catch (err) {
+    req.log.error('Failed to regenerate section', { err });
+    auditDocument(req, 'section.generate', 'failure', { details: { sectionKey: req.params.sectionKey, error: err.message } });
+    res.status(500).json({ error: 'Failed to regenerate section', details: err.message });
+  }
+});
+
 // Delete document
 app.delete('/api/interactions/:id/documents/:documentId', async (req, res) => {
   try {
     const { id, documentId } = req.params;
-    console.log(`Deleting document ${documentId} for interaction: ${id}`);
+    req.log.info('Deleting document', { documentId });
     await corti.documents.delete(id, documentId);
+    removeDocument(id, documentId);
+    auditDocument(req, 'document.delete', 'success');
     res.json({ success: true });
   } catch (err) {
-    console.error('Failed to delete document:', err);
+    req.log.error('Failed to delete document', { err });
+    auditDocument(req, 'document.delete', 'failure', { details: { error: err.message } });
     res.status(500).json({ error: 'Failed to delete document', details: err.message });
   }
 });
 
+// Generate several (template, language) documents from one context. Items run
+// in the background; the batch is polled for progress.
+app.post('/api/interactions/:id/document-batches', requireDailyBudget, (req, res) => {
+  try {
+    const { id } = req.params;
+    const { context, items } = req.body;
+
+    const contextError = validateDocumentContext(context);
+    if (contextError) {
+      return res.status(400).json({ error: contextError });
+    }
+    const itemsError = validateBatchItems(items);
+    if (itemsError) {
+      return res.status(400).json({ error: itemsError });
+    }
+
+    const batch = startDocumentBatch({ user: req.user, interactionId: id, context, items });
+    res.status(202).json(batch);
+  } catch (err) {
+    req.log.error('Failed to start document batch', { err });
+    res.status(500).json({ error: 'Failed to start document batch', details: err.message });
+  }
+});
+
+// List an interaction's batches, newest first
+app.get('/api/interactions/:id/document-batches', (req, res) => {
+  try {
+    res.json({ batches: listDocumentBatches(req.params.id) });
+  } catch (err) {
+    req.log.error('Failed to list document batches', { err });
+    res.status(500).json({ error: 'Failed to list document batches', details: err.message });
+  }
+});
+
+// Get one batch with the state of each item
+app.get('/api/interactions/:id/document-batches/:batchId', (req, res) => {
+  try {
+    const batch = getDocumentBatch(req.params.id, req.params.batchId);
+    if (!batch) {
+      return res.status(404).json({ error: 'Document batch not found' });
+    }
+    res.json(batch);
+  } catch (err) {
+    req.log.error('Failed to fetch document batch', { err });
+    res.status(500).json({ error: 'Failed to fetch document batch', details: err.message });
+  }
+});
+
+// Queue a failed batch item again
+app.post('/api/interactions/:id/document-batches/:batchId/items/:itemId/retry', requireDailyBudget, (req, res) => {
+  try {
+    const { id, batchId, itemId } = req.params;
+    const item = getDocumentBatch(id, batchId)?.items.find(i => i.id === itemId);
+    if (!item) {
+      return res.status(404).json({ error: 'Batch item not found' });
+    }
+    if (item.status !== 'failed') {
+      return res.status(409).json({ error: `Only failed items can be retried; this one is ${item.status}` });
+    }
+    if (!retryBatchItem({ user: req.user, interactionId: id, batchId, itemId })) {
+      return res.status(409).json({ error: 'The context of this batch is no longer available; start a new batch' });
+    }
+    res.status(202).json(getDocumentBatch(id, batchId));
+  } catch (err) {
+    req.log.error('Failed to retry batch item', { err });
+    res.status(500).json({ error: 'Failed to retry batch item', details: err.message });
+  }
+});
+
+// ============================================
+// Sessions API (local history)
+// ============================================
+
+// List recorded sessions, newest first
+app.get('/api/sessions', (req, res) => {
+  try {
+    res.json({ sessions: listSessions(req.user.id) });
+  } catch (err) {
+    req.log.error('Failed to list sessions', { err });
+    res.status(500).json({ error: 'Failed to list sessions', details: err.message });
+  }
+});
+
+// Get a recorded session with its transcript, facts, usage and documents
+app.get('/api/sessions/:id', (req, res) => {
+  try {
+    const session = getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(session);
+  } catch (err) {
+    req.log.error('Failed to fetch session', { err });
+    res.status(500).json({ error: 'Failed to fetch session', details: err.message });
+  }
+});
+
+// Delete a recorded session (the Corti interaction itself is kept)
+app.delete('/api/sessions/:id', async (req, res) => {
+  if (isSessionActive(req.params.id)) {
+    return res.status(409).json({ error: 'The session is still recording; stop it first' });
+  }
+
+  try {
+    const deleted = await deleteSession(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    await deleteAudioArchive(req.params.id);
+    res.json({ success: true });
+  } catch (err) {
+    req.log.error('Failed to delete session', { err });
+    res.status(500).json({ error: 'Failed to delete session', details: err.message });
+  }
+});
+
+// Optional ?from=&to= query filters, normalized to ISO timestamps
+const parseTimeRange = (query) => {
+  const range = {};
+  for (const key of ['from', 'to']) {
+    if (!query[key]) continue;
+    const date = new Date(String(query[key]));
+    if (Number.isNaN(date.getTime())) {
+      return { error: `${key} must be an ISO 8601 timestamp` };
+    }
+    range[key] = date.toISOString();
+  }
+  return { range };
+};
+
+// ============================================
+// Audit API (auditors only)
+// ============================================
+
+const MAX_AUDIT_LIMIT = 5000;
+
+// Shared by the JSON and CSV routes: ?interactionId=&userId=&action=&from=&to=&limit=
+const parseAuditFilters = (query) => {
+  const filters = {};
+  for (const key of ['interactionId', 'userId', 'action']) {
+    if (query[key]) filters[key] = String(query[key]);
+  }
+  if (filters.action && !AUDIT_ACTIONS.includes(filters.action)) {
+    return { error: `action must be one of: ${AUDIT_ACTIONS.join(', ')}` };
+  }
+  const { range, error } = parseTimeRange(query);
+  if (error) {
+    return { error };
+  }
+  Object.assign(filters, range);
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_LIMIT) {
+      return { error: `limit must be an integer between 1 and ${MAX_AUDIT_LIMIT}` };
+    }
+    filters.limit = limit;
+  }
+  return { filters };
+};
+
+app.use('/api/audit', requireRole('auditor'));
+
+// Query audit entries, oldest first
+app.get('/api/audit', async (req, res) => {
+  try {
+    const { filters, error } = parseAuditFilters(req.query);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    res.json({ entries: await queryAudit(filters) });
+  } catch (err) {
+    req.log.error('Failed to query audit log', { err });
+    res.status(500).json({ error: 'Failed to query audit log', details: err.message });
+  }
+});
+
+// Same filters as a CSV download; the export itself is audited
+app.get('/api/audit/export', async (req, res) => {
+  try {
+    const { filters, error } = parseAuditFilters(req.query);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const entries = await queryAudit({ limit: MAX_AUDIT_LIMIT, ...filters });
+    recordAudit({ actor: req.user, action: 'audit.export', outcome: 'success', details: { filters, count: entries.length } });
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.send(auditEntriesToCsv(entries));
+  } catch (err) {
+    req.log.error('Failed to export audit log', { err });
+    res.status(500).json({ error: 'Failed to export audit log', details: err.message });
+  }
+});
+
+// Recompute the hash chain to detect edited, removed or reordered entries
+app.get('/api/audit/verify', async (req, res) => {
+  try {
+    const result = await verifyAuditChain();
+    if (!result.valid) {
+      req.log.error('Audit chain verification failed', result);
+    }
+    res.json(result);
+  } catch (err) {
+    req.log.error('Failed to verify audit log', { err });
+    res.status(500).json({ error: 'Failed to verify audit log', details: err.message });
+  }
+});
+
+// ============================================
+// Usage API
+// ============================================
+
+// Credit usage grouped by day, user or session, with the configured budgets.
+// Clinicians see their own usage; auditors see everyone's, or one user's with ?userId=
+app.get('/api/usage', async (req, res) => {
+  try {
+    const groupBy = req.query.groupBy || 'day';
+    if (!USAGE_GROUPS.includes(groupBy)) {
+      return res.status(400).json({ error: `groupBy must be one of: ${USAGE_GROUPS.join(', ')}` });
+    }
+    const { range, error } = parseTimeRange(req.query);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const requestedUserId = req.query.userId ? String(req.query.userId) : undefined;
+    const isAuditor = req.user.role === 'auditor';
+    if (requestedUserId && !isAuditor && requestedUserId !== req.user.id) {
+      return res.status(403).json({ error: "Only auditors can view other users' usage" });
+    }
+    const userId = isAuditor ? requestedUserId : req.user.id;
+
+    const report = await queryUsage({ groupBy, userId, ...range });
+    res.json({ ...report, today: getDailyUsage(req.user.id), budgets: BUDGETS });
+  } catch (err) {
+    req.log.error('Failed to build usage report', { err });
+    res.status(500).json({ error: 'Failed to build usage report', details: err.message });
+  }
+});
+
+// ============================================
+// Recorded Audio API
+// ============================================
+
+// Stream the archived audio of a session. Supports single byte ranges so the
+// player can seek; express routes HEAD here too, answered with headers only.
+app.get('/api/interactions/:id/audio', async (req, res) => {
+  try {
+    const audio = await getArchivedAudio(req.params.id);
+    if (!audio) {
+      return res.status(404).json({ error: 'No archived audio for this interaction' });
+    }
+
+    let start = 0;
+    let end = audio.size - 1;
+    const ranges = req.headers.range ? req.range(audio.size) : null;
+    if (ranges === -1) {
+      res.set('Content-Range', `bytes */${audio.size}`);
+      return res.status(416).json({ error: 'Requested range not satisfiable' });
+    }
+    if (ranges === -2 || (ranges && ranges.length > 1)) {
+      return res.status(400).json({ error: 'Only a single byte range is supported' });
+    }
+    if (ranges) {
+      ({ start, end } = ranges[0]);
+      res.status(206).set('Content-Range', `bytes ${start}-${end}/${audio.size}`);
+    }
+
+    res.set({
+      'Accept-Ranges': 'bytes',
+      'Content-Type': audio.mimeType,
+      'Content-Length': audio.size === 0 ? 0 : end - start + 1,
+      'Cache-Control': 'private, no-store'
+    });
+    if (req.method === 'HEAD' || audio.size === 0) {
+      return res.end();
+    }
+
+    // Seeking fetches many ranges; only playback from the start is audited
+    if (start === 0) {
+      recordAudit({ actor: req.user, action: 'audio.access', interactionId: req.params.id, outcome: 'success' });
+    }
+    audio.createReadStream(start, end)
+      .on('error', (err) => {
+        req.log.error('Failed to read archived audio', { err });
+        res.destroy(err);
+      })
+      .pipe(res);
+  } catch (err) {
+    req.log.error('Failed to fetch archived audio', { err });
+    res.status(500).json({ error: 'Failed to fetch archived audio', details: err.message });
+  }
+});
+
+// ============================================
+// Uploads API
+// ============================================
+
+// Upload a recording for batch processing; the returned uploadId is then
+// sent as an `upload` message over /ws/ambient once the stream is configured
+app.post('/api/uploads', (req, res) => {
+  uploadAudio(req, res, (err) => {
+    if (err) {
+      req.log.warn('Upload rejected', { err });
+      return res.status(400).json({ error: 'Upload rejected', details: err.message });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: 'An audio file is required in the "audio" field' });
+    }
+
+    registerUpload(req.file.filename, req.user);
+    req.log.info('Recording uploaded', { uploadId: req.file.filename, fileName: req.file.originalname, size: req.file.size });
+    res.json({
+      uploadId: req.file.filename,
+      fileName: req.file.originalname,
+      size: req.file.size,
+      mimeType: req.file.mimetype
+    });
+  });
+});
+
 // Create HTTP server
 const server = http.createServer(app);
 
-// Create WebSocket server
-const wss = new WebSocketServer({ server });
+// Create WebSocket server; upgrades are authenticated before the handshake
+const wss = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (req, socket, head) => {
+  const user = authenticateUpgrade(req);
+  if (!user) {
+    logger.warn('Rejected unauthenticated WebSocket upgrade', { path: new URL(req.url, 'http://localhost').pathname });
+    socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req, user));
+});
 
 // Handle WebSocket connections
-wss.on('connection', (ws, req) => {
-  const pathname = req.url;
-  console.log(`WebSocket connection attempt to: ${pathname}`);
+wss.on('connection', (ws, req, user) => {
+  const { pathname, searchParams } = new URL(req.url, 'http://localhost');
+  logger.info('WebSocket connection', { path: pathname, userId: user.id });
 
   if (pathname === '/ws/ambient') {
-    handleAmbientConnection(ws);
+    // ?resume=<interactionId>&ack=<lastAckedSeq> re-attaches a dropped session
+    handleAmbientConnection(ws, {
+      user,
+      resumeId: searchParams.get('resume'),
+      lastAckedSeq: searchParams.get('ack')
+    });
+  } else if (pathname === '/ws/dictation') {
+    handleDictationConnection(ws, { user });
   } else {
-    console.log(`Unknown WebSocket path: ${pathname}`);
+    logger.warn('Unknown WebSocket path', { path: pathname });
     ws.close(4004, 'Unknown endpoint');
   }
 });
 
-// Ensure uploads directory exists
-const uploadsDir = path.join(__dirname, 'uploads');
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir);
-}
-
 // Start server
 const PORT = process.env.PORT || 5005;
 server.listen(PORT, () => {
-  console.log(`Server running on http://localhost:${PORT}`);
-  console.log(`WebSocket available at ws://localhost:${PORT}/ws/ambient`);
-  console.log(`Environment: ${process.env.ENVIRONMENT}`);
-  console.log(`Tenant: ${process.env.TENANT_NAME}\n`);
+  logger.info('Server running', {
+    url: `http://localhost:${PORT}`,
+    webSocket: `ws://localhost:${PORT}/ws/ambient`,
+    dictation: `ws://localhost:${PORT}/ws/dictation`,
+    environment: isMockMode ? 'mock' : process.env.ENVIRONMENT,
+    tenant: isMockMode ? undefined : process.env.TENANT_NAME
+  });
 });
\ No newline at end of file
@@ -0,0 +1,231 @@
+// Session Store - File-based persistence of ambient sessions
+// File: backend/sessionStore.js
+//
+// Each interaction is kept as one JSON file in data/sessions. Records are
+// cached in memory and written back shortly after each change, so a burst of
+// transcript segments results in a single write.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { logger } from './logger.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const SESSIONS_DIR = path.join(__dirname, 'data', 'sessions');
+
+const WRITE_DELAY_MS = 500;
+const ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+const cache = new Map();
+const pendingWrites = new Map();
+// Last write queued per interaction
+const writeChains = new Map();
+
+fs.mkdirSync(SESSIONS_DIR, { recursive: true });
+
+const sessionPath = (interactionId) => {
+  if (!ID_PATTERN.test(interactionId || '')) {
+    throw new Error(`Invalid interaction ID: ${interactionId}`);
+  }
+  return path.join(SESSIONS_DIR, `${interactionId}.json`);
+};
+
+const load = (interactionId) => {
+  if (cache.has(interactionId)) {
+    return cache.get(interactionId);
+  }
+  const file = sessionPath(interactionId);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  const session = JSON.parse(fs.readFileSync(file, 'utf8'));
+  cache.set(interactionId, session);
+  return session;
+};
+
+const persist = async (interactionId) => {
+  const session = cache.get(interactionId);
+  if (!session) return;
+
+  // Write to a temp file and rename so a crash never leaves half a record
+  const file = sessionPath(interactionId);
+  const tmp = `${file}.tmp`;
+  try {
+    await fs.promises.writeFile(tmp, JSON.stringify(session, null, 2));
+    await fs.promises.rename(tmp, file);
+  } catch (err) {
+    logger.error('Failed to persist session', { interactionId, err });
+  }
+};
+
+// Writes of one interaction run one after another: two overlapping writes
+// would share the temp file, and one could rename it while the other is
+// still filling it
+const writeNow = (interactionId) => {
+  clearTimeout(pendingWrites.get(interactionId));
+  pendingWrites.delete(interactionId);
+
+  const write = (writeChains.get(interactionId) || Promise.resolve())
+    .then(() => persist(interactionId));
+  writeChains.set(interactionId, write);
+  write.then(() => {
+    if (writeChains.get(interactionId) === write) writeChains.delete(interactionId);
+  });
+  return write;
+};
+
+const scheduleWrite = (interactionId) => {
+  if (pendingWrites.has(interactionId)) return;
+  pendingWrites.set(interactionId, setTimeout(() => writeNow(interactionId), WRITE_DELAY_MS));
+};
+
+// Apply a change to a stored session; ignored if the session isn't recorded
+const mutate = (interactionId, fn) => {
+  const session = load(interactionId);
+  if (!session) return null;
+  fn(session);
+  session.updatedAt = new Date().toISOString();
+  scheduleWrite(interactionId);
+  return session;
+};
+
+export function createSession(interactionId, { owner, encounter = null, configuration = null, source = 'live' } = {}) {
+  const now = new Date().toISOString();
+  const session = {
+    interactionId,
+    // ID of the user who recorded the session; only they can access it
+    owner,
+    source,
+    status: 'in-progress',
+    // { identifier, type, title, patientIdentifier } as sent to Corti
+    encounter,
+    configuration,
+    startedAt: now,
+    endedAt: null,
+    updatedAt: now,
+    transcript: [],
+    facts: [],
+    usage: { credits: 0, events: 0 },
+    documents: [],
+    documentBatches: []
+  };
+  cache.set(interactionId, session);
+  scheduleWrite(interactionId);
+  return session;
+}
+
+export const updateSession = (interactionId, patch) =>
+  mutate(interactionId, session => Object.assign(session, patch));
+
+export const appendTranscript = (interactionId, segment) =>
+  mutate(interactionId, session => {
+    const index = session.transcript.findIndex(s => s.id === segment.id);
+    if (index >= 0) {
+      session.transcript[index] = { ...session.transcript[index], ...segment };
+    } else {
+      session.transcript.push(segment);
+    }
+  });
+
+// Mirror the client's fact reducer: upsert by id. Discarded facts are kept
+// (flagged) so they can be restored.
+export const upsertFacts = (interactionId, facts) =>
+  mutate(interactionId, session => {
+    const factMap = new Map(session.facts.map(f => [f.id, f]));
+    facts.forEach(fact => {
+      factMap.set(fact.id, { ...factMap.get(fact.id), ...fact });
+    });
+    session.facts = Array.from(factMap.values());
+  });
+
+export const addUsage = (interactionId, credits) =>
+  mutate(interactionId, session => {
+    session.usage.credits += Number(credits) || 0;
+    session.usage.events += 1;
+  });
+
+export const addDocument = (interactionId, document) =>
+  mutate(interactionId, session => {
+    session.documents = session.documents.filter(d => d.id !== document.id);
+    session.documents.push(document);
+  });
+
+// Batches are kept whole and replaced on every item update; records from
+// before batch generation have no list yet
+export const upsertDocumentBatch = (interactionId, batch) =>
+  mutate(interactionId, session => {
+    session.documentBatches = session.documentBatches || [];
+    const index = session.documentBatches.findIndex(b => b.id === batch.id);
+    if (index >= 0) {
+      session.documentBatches[index] = batch;
+    } else {
+      session.documentBatches.push(batch);
+    }
+  });
+
+export const removeDocument = (interactionId, documentId) =>
+  mutate(interactionId, session => {
+    session.documents = session.documents.filter(d => d.id !== documentId);
+  });
+
+export async function endSession(interactionId) {
+  const session = mutate(interactionId, s => {
+    s.status = 'completed';
+    s.endedAt = new Date().toISOString();
+  });
+  if (session) {
+    await writeNow(interactionId);
+  }
+  return session;
+}
+
+export const getSession = (interactionId) => load(interactionId);
+
+// Sessions recorded by one user; records without an owner predate
+// authentication and are not listed for anyone
+export function listSessions(owner) {
+  const ids = fs.readdirSync(SESSIONS_DIR)
+    .filter(f => f.endsWith('.json'))
+    .map(f => f.slice(0, -'.json'.length));
+
+  return ids
+    .map(id => {
+      try {
+        return load(id);
+      } catch (err) {
+        logger.error('Skipping unreadable session', { interactionId: id, err });
+        return null;
+      }
+    })
+    .filter(session => session?.owner && session.owner === owner)
+    .map(session => ({
+      interactionId: session.interactionId,
+      source: session.source,
+      status: session.status,
+      title: session.encounter?.title || null,
+      encounterIdentifier: session.encounter?.identifier || null,
+      language: session.configuration?.transcription?.primaryLanguage || null,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      segmentCount: session.transcript.length,
+      factCount: session.facts.filter(f => !f.isDiscarded).length,
+      documentCount: session.documents.length,
+      credits: session.usage.credits
+    }))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export async function deleteSession(interactionId) {
+  const file = sessionPath(interactionId);
+  clearTimeout(pendingWrites.get(interactionId));
+  pendingWrites.delete(interactionId);
+  cache.delete(interactionId);
+  // A write already under way would put the file back after the unlink
+  await writeChains.get(interactionId);
+  if (!fs.existsSync(file)) {
+    return false;
+  }
+  await fs.promises.unlink(file);
+  return true;
+}
@@ -0,0 +1,207 @@
+// Stream Configuration - Validation of client-supplied /stream and /transcribe settings
+// File: backend/streamConfig.js
+
+// Allow-lists for what clients may request
+export const STREAM_LANGUAGES = ['en', 'es', 'fr', 'de', 'pt', 'it', 'nl', 'da', 'sv', 'no'];
+export const STREAM_MODES = ['facts', 'transcription'];
+export const PARTICIPANT_ROLES = ['doctor', 'patient', 'multiple'];
+// `webm-opus` is a self-describing container; `pcm16` is raw little-endian
+// 16-bit PCM with the rate and channel count declared alongside it
+export const AUDIO_ENCODINGS = ['webm-opus', 'pcm16'];
+export const PCM_SAMPLE_RATES = [16000];
+const MAX_CHANNELS = 2;
+
+export const DEFAULT_STREAM_CONFIGURATION = {
+  transcription: {
+    primaryLanguage: 'en',
+    isDiarization: false,
+    isMultichannel: false,
+    participants: [{ channel: 0, role: 'multiple' }]
+  },
+  mode: {
+    type: 'facts',
+    outputLocale: 'en'
+  },
+  audio: {
+    encoding: 'webm-opus'
+  }
+};
+
+const oneOf = (value, allowed, field) =>
+  allowed.includes(value) ? null : `${field} must be one of: ${allowed.join(', ')}`;
+
+const validateParticipants = (participants, isMultichannel) => {
+  if (!Array.isArray(participants) || participants.length === 0) {
+    return 'transcription.participants must be a non-empty array';
+  }
+  if (participants.length > MAX_CHANNELS) {
+    return `transcription.participants supports at most ${MAX_CHANNELS} entries`;
+  }
+
+  const channels = new Set();
+  for (const [i, participant] of participants.entries()) {
+    const { channel, role } = participant || {};
+    if (!Number.isInteger(channel) || channel < 0 || channel >= MAX_CHANNELS) {
+      return `transcription.participants[${i}].channel must be an integer from 0 to ${MAX_CHANNELS - 1}`;
+    }
+    const roleError = oneOf(role, PARTICIPANT_ROLES, `transcription.participants[${i}].role`);
+    if (roleError) return roleError;
+    if (channels.has(channel)) {
+      return `transcription.participants[${i}].channel ${channel} is assigned more than once`;
+    }
+    channels.add(channel);
+  }
+
+  if (!isMultichannel && (participants.length > 1 || participants[0].channel !== 0)) {
+    return 'Single-channel streams take exactly one participant on channel 0';
+  }
+  return null;
+};
+
+const validateAudio = (audio, channelCount) => {
+  const encodingError = oneOf(audio.encoding, AUDIO_ENCODINGS, 'audio.encoding');
+  if (encodingError || audio.encoding !== 'pcm16') return encodingError;
+
+  if (!PCM_SAMPLE_RATES.includes(audio.sampleRate)) {
+    return `audio.sampleRate must be one of: ${PCM_SAMPLE_RATES.join(', ')}`;
+  }
+  if (audio.channels !== channelCount) {
+    return `audio.channels must be ${channelCount} to match the participants`;
+  }
+  return null;
+};
+
+// Validate a client config message against the allow-lists and merge it over the defaults.
+// Returns { configuration } on success or { error } describing the first invalid field.
+export function buildStreamConfiguration(input = {}) {
+  if (!input || typeof input !== 'object') {
+    return { error: 'configuration must be an object' };
+  }
+
+  const transcription = { ...DEFAULT_STREAM_CONFIGURATION.transcription, ...input.transcription };
+  const mode = { ...DEFAULT_STREAM_CONFIGURATION.mode, ...input.mode };
+  const audio = input.audio || DEFAULT_STREAM_CONFIGURATION.audio;
+
+  const error =
+    oneOf(transcription.primaryLanguage, STREAM_LANGUAGES, 'transcription.primaryLanguage') ||
+    (typeof transcription.isDiarization !== 'boolean' && 'transcription.isDiarization must be a boolean') ||
+    (typeof transcription.isMultichannel !== 'boolean' && 'transcription.isMultichannel must be a boolean') ||
+    validateParticipants(transcription.participants, transcription.isMultichannel) ||
+    oneOf(mode.type, STREAM_MODES, 'mode.type') ||
+    (mode.type === 'facts' && oneOf(mode.outputLocale, STREAM_LANGUAGES, 'mode.outputLocale')) ||
+    validateAudio(audio, transcription.isMultichannel ? transcription.participants.length : 1);
+
+  if (error) {
+    return { error };
+  }
+
+  return {
+    configuration: {
+      transcription: {
+        primaryLanguage: transcription.primaryLanguage,
+        isDiarization: transcription.isDiarization,
+        isMultichannel: transcription.isMultichannel,
+        participants: transcription.participants.map(({ channel, role }) => ({ channel, role }))
+      },
+      mode: mode.type === 'facts'
+        ? { type: 'facts', outputLocale: mode.outputLocale }
+        : { type: mode.type },
+      audio: audio.encoding === 'pcm16'
+        ? { encoding: 'pcm16', sampleRate: audio.sampleRate, channels: audio.channels }
+        : { encoding: audio.encoding }
+    }
+  };
+}
+
+// The part of a validated configuration that Corti's /stream takes; the audio
+// format travels in the audio itself (see streamHeaderFor)
+export const toCortiConfiguration = ({ transcription, mode }) => ({ transcription, mode });
+
+// 44-byte WAV header for PCM16 audio. Without `dataBytes` the length is left
+// open-ended (0xFFFFFFFF), for a stream whose size isn't known yet.
+export function wavHeader({ sampleRate, channels }, dataBytes = null) {
+  const blockAlign = channels * 2;
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(dataBytes === null ? 0xFFFFFFFF : 36 + dataBytes, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(dataBytes === null ? 0xFFFFFFFF : dataBytes, 40);
+  return header;
+}
+
+// Bytes to send ahead of the audio so Corti can decode it: a WAV header with
+// an open-ended data length for raw PCM, nothing for containers
+export const streamHeaderFor = (audio) =>
+  audio?.encoding === 'pcm16' ? wavHeader(audio) : null;
+
+// ============================================
+// Dictation (/transcribe)
+// ============================================
+
+// Formatting and editing commands; Corti removes the phrase from the
+// transcript and reports the command so the client can apply it.
+// Punctuation ("full stop", "comma") is handled by spokenPunctuation.
+export const DICTATION_COMMANDS = [
+  { id: 'new_paragraph', phrases: ['new paragraph', 'next paragraph'] },
+  { id: 'new_line', phrases: ['new line', 'next line'] },
+  { id: 'delete_that', phrases: ['delete that', 'scratch that'] }
+];
+
+export const DEFAULT_DICTATION_CONFIGURATION = {
+  primaryLanguage: 'en',
+  spokenPunctuation: true,
+  automaticPunctuation: false,
+  audio: {
+    encoding: 'webm-opus'
+  }
+};
+
+// Validate a dictation config message and merge it over the defaults.
+// Dictation is always one speaker, so audio is mono.
+export function buildDictationConfiguration(input = {}) {
+  if (!input || typeof input !== 'object') {
+    return { error: 'configuration must be an object' };
+  }
+
+  const merged = { ...DEFAULT_DICTATION_CONFIGURATION, ...input };
+  const error =
+    oneOf(merged.primaryLanguage, STREAM_LANGUAGES, 'primaryLanguage') ||
+    (typeof merged.spokenPunctuation !== 'boolean' && 'spokenPunctuation must be a boolean') ||
+    (typeof merged.automaticPunctuation !== 'boolean' && 'automaticPunctuation must be a boolean') ||
+    validateAudio(merged.audio || {}, 1);
+
+  if (error) {
+    return { error };
+  }
+
+  const { audio } = merged;
+  return {
+    configuration: {
+      primaryLanguage: merged.primaryLanguage,
+      spokenPunctuation: merged.spokenPunctuation,
+      automaticPunctuation: merged.automaticPunctuation,
+      audio: audio.encoding === 'pcm16'
+        ? { encoding: 'pcm16', sampleRate: audio.sampleRate, channels: audio.channels }
+        : { encoding: audio.encoding }
+    }
+  };
+}
+
+// What Corti's /transcribe takes: the validated settings plus interim results
+// and the command set, which clients can't change
+export const toCortiTranscribeConfiguration = ({ primaryLanguage, spokenPunctuation, automaticPunctuation }) => ({
+  primaryLanguage,
+  interimResults: true,
+  spokenPunctuation,
+  automaticPunctuation,
+  commands: DICTATION_COMMANDS
+});
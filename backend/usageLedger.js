@@ -0,0 +1,185 @@
+// Usage Ledger - Credit accounting per interaction and user, with budgets
+// File: backend/usageLedger.js
+//
+// Every credit-consuming event (stream and dictation `usage` messages, document
+// and section generation) is appended as one JSON line to data/usage.log. Days are UTC.
+// Budgets are optional: USAGE_SESSION_BUDGET caps one recording session and
+// USAGE_DAILY_BUDGET caps one user's day. Clients are warned once usage
+// reaches USAGE_WARN_RATIO of a cap.
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { fileURLToPath } from 'url';
+import { logger } from './logger.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const USAGE_FILE = path.join(__dirname, 'data', 'usage.log');
+
+export const USAGE_KINDS = ['stream', 'dictation', 'document', 'section'];
+export const USAGE_GROUPS = ['day', 'user', 'session'];
+export const BUDGET_SCOPES = ['session', 'daily'];
+
+const DEFAULT_WARN_RATIO = 0.8;
+
+const readPositiveNumber = (name) => {
+  const raw = process.env[name];
+  if (!raw) return null;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    logger.warn('Ignoring invalid usage setting', { name, value: raw });
+    return null;
+  }
+  return value;
+};
+
+const warnRatio = Math.min(readPositiveNumber('USAGE_WARN_RATIO') ?? DEFAULT_WARN_RATIO, 1);
+
+// Credits; null means no cap
+export const BUDGETS = {
+  session: readPositiveNumber('USAGE_SESSION_BUDGET'),
+  daily: readPositiveNumber('USAGE_DAILY_BUDGET'),
+  warnRatio
+};
+
+// Credits per user per UTC day, keyed `${day}|${userId}`, for budget checks
+const dailyCredits = new Map();
+let writeQueue = Promise.resolve();
+
+const dayOf = (time) => time.slice(0, 10);
+const dailyKey = (day, userId) => `${day}|${userId}`;
+
+const addToDaily = (entry) => {
+  const key = dailyKey(dayOf(entry.time), entry.userId);
+  dailyCredits.set(key, (dailyCredits.get(key) || 0) + entry.credits);
+};
+
+fs.mkdirSync(path.dirname(USAGE_FILE), { recursive: true });
+
+// Today's totals have to survive a restart, otherwise the daily cap resets
+if (fs.existsSync(USAGE_FILE)) {
+  const today = dayOf(new Date().toISOString());
+  fs.readFileSync(USAGE_FILE, 'utf8').split('\n').forEach(line => {
+    if (!line.trim()) return;
+    try {
+      const entry = JSON.parse(line);
+      if (dayOf(entry.time) === today) addToDaily(entry);
+    } catch (err) {
+      logger.error('Skipping unreadable usage entry', { err });
+    }
+  });
+}
+
+// Append a usage event; returns it immediately, the write is queued in order
+export function recordUsage({ user, interactionId, kind, credits, documentId = null }) {
+  if (!USAGE_KINDS.includes(kind)) {
+    throw new Error(`Invalid usage kind: ${kind}`);
+  }
+
+  const entry = {
+    time: new Date().toISOString(),
+    userId: user.id,
+    username: user.username,
+    interactionId,
+    documentId,
+    kind,
+    credits: Number(credits) || 0
+  };
+  addToDaily(entry);
+
+  writeQueue = writeQueue
+    .then(() => fs.promises.appendFile(USAGE_FILE, `${JSON.stringify(entry)}\n`))
+    .catch(err => logger.error('Failed to write usage entry', { interactionId, kind, err }));
+  return entry;
+}
+
+// Credits a user has consumed so far today (UTC)
+export const getDailyUsage = (userId) =>
+  dailyCredits.get(dailyKey(dayOf(new Date().toISOString()), userId)) || 0;
+
+// Where `used` stands against the cap of `scope`: 'exceeded' once it is
+// reached, 'warning' past the warning ratio, null otherwise or without a cap
+export function budgetStatus(scope, used) {
+  const limit = BUDGETS[scope];
+  if (!limit) return null;
+  if (used >= limit) return { state: 'exceeded', scope, used, limit };
+  if (used >= limit * warnRatio) return { state: 'warning', scope, used, limit };
+  return null;
+}
+
+// Budget checks for one recording or dictation session. add() takes the
+// session's newly reported credits (already recorded) and returns what to tell
+// the client: the cap that was reached, else warnings not sent before.
+export function createBudgetTracker(userId) {
+  let sessionCredits = 0;
+  let isExceeded = false;
+  const warnedScopes = new Set();
+
+  return {
+    add(credits) {
+      sessionCredits += credits;
+      if (isExceeded) return [];
+
+      const used = { session: sessionCredits, daily: getDailyUsage(userId) };
+      const statuses = BUDGET_SCOPES.map(scope => budgetStatus(scope, used[scope])).filter(Boolean);
+      const exceeded = statuses.find(status => status.state === 'exceeded');
+      if (exceeded) {
+        isExceeded = true;
+        return [exceeded];
+      }
+      const warnings = statuses.filter(status => !warnedScopes.has(status.scope));
+      warnings.forEach(status => warnedScopes.add(status.scope));
+      return warnings;
+    }
+  };
+}
+
+const groupKey = {
+  day: (entry) => dayOf(entry.time),
+  user: (entry) => entry.userId,
+  session: (entry) => entry.interactionId
+};
+
+// Totals per day, user or session (interaction). `from`/`to` are inclusive
+// ISO timestamps. Days are listed in order, users and sessions by credits.
+export async function queryUsage({ groupBy = 'day', userId, from, to } = {}) {
+  await writeQueue;
+  const groups = new Map();
+  const total = { credits: 0, events: 0 };
+
+  if (fs.existsSync(USAGE_FILE)) {
+    const lines = readline.createInterface({ input: fs.createReadStream(USAGE_FILE), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      const entry = JSON.parse(line);
+      if (userId && entry.userId !== userId) continue;
+      if (from && entry.time < from) continue;
+      if (to && entry.time > to) continue;
+
+      const key = groupKey[groupBy](entry);
+      if (!groups.has(key)) {
+        groups.set(key, {
+          key,
+          ...(groupBy === 'user' && { username: entry.username }),
+          ...(groupBy === 'session' && { userId: entry.userId, startedAt: entry.time }),
+          credits: 0,
+          events: 0,
+          byKind: Object.fromEntries(USAGE_KINDS.map(kind => [kind, 0]))
+        });
+      }
+      const group = groups.get(key);
+      group.credits += entry.credits;
+      group.events += 1;
+      group.byKind[entry.kind] = (group.byKind[entry.kind] || 0) + entry.credits;
+      total.credits += entry.credits;
+      total.events += 1;
+    }
+  }
+
+  const rows = Array.from(groups.values());
+  rows.sort(groupBy === 'day'
+    ? (a, b) => a.key.localeCompare(b.key)
+    : (a, b) => b.credits - a.credits);
+  return { groupBy, rows, total };
+}
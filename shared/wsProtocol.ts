@@ -0,0 +1,279 @@
+// shared/wsProtocol.ts
+
+// /ws/ambient and /ws/dictation message contracts, shared by the backend and
+// the frontend. Every JSON frame carries the protocol version and a `type`
+// that selects one member of ClientMessage or ServerMessage (DictationClient-
+// and DictationServerMessage on /ws/dictation). Audio travels as binary frames
+// and is not part of the contract. Each side validates what it receives, so a
+// change on one side without the other is reported instead of ignored.
+
+// Bump when a message shape changes incompatibly
+// 2: a new /ws/ambient session waits for `start` before creating the interaction
+export const PROTOCOL_VERSION = 2;
+
+export interface TranscriptData {
+  id: string;
+  text: string;
+  isFinal: boolean;
+  speakerId?: number;
+  channel?: number;
+  start?: number;
+  end?: number;
+}
+
+export interface StreamFact {
+  id: string;
+  text: string;
+  group: string;
+  groupId?: string;
+  isDiscarded?: boolean;
+  source?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// A capped credit budget: one recording session, or one user's UTC day
+export type BudgetScope = 'session' | 'daily';
+
+// Dictation results have no speakers; `text` has spoken punctuation applied
+// and command phrases removed, `rawTranscriptText` is what was said
+export interface DictationTranscriptData {
+  id: string;
+  text: string;
+  rawTranscriptText: string;
+  isFinal: boolean;
+  start: number;
+  end: number;
+}
+
+// Spoken commands registered for every dictation
+export type DictationCommandId = 'new_paragraph' | 'new_line' | 'delete_that';
+export const DICTATION_COMMAND_IDS: DictationCommandId[] = ['new_paragraph', 'new_line', 'delete_that'];
+
+export interface DictationCommandData {
+  id: DictationCommandId;
+  rawTranscriptText: string;
+  start: number;
+  end: number;
+}
+
+// Client → server. `start` comes first on a new session; the encounter is
+// validated by the backend like the stream configuration
+export type ClientMessage =
+  | { type: 'start'; encounter: Record<string, unknown> }
+  | { type: 'config'; configuration: Record<string, unknown> }
+  | { type: 'upload'; uploadId: string }
+  | { type: 'flush' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'end' };
+
+// Server → client
+export type ServerMessage =
+  | { type: 'session_started'; interactionId: string }
+  | { type: 'CONFIG_ACCEPTED' }
+  | { type: 'CONFIG_DENIED'; reason: string }
+  | { type: 'ack'; seq: number }
+  | { type: 'resumed'; interactionId: string; lastSeq: number }
+  | { type: 'resume_failed'; reason: string }
+  | { type: 'upload_progress'; sentBytes: number; totalBytes: number }
+  | { type: 'transcript'; data: TranscriptData }
+  | { type: 'facts'; facts: StreamFact[] }
+  | { type: 'flushed' }
+  | { type: 'usage'; credits: number }
+  | { type: 'budget_warning'; scope: BudgetScope; used: number; limit: number }
+  | { type: 'budget_exceeded'; scope: BudgetScope; used: number; limit: number }
+  | { type: 'ended' }
+  | { type: 'error'; message: string };
+
+// Client → server on /ws/dictation
+export type DictationClientMessage =
+  | { type: 'config'; configuration: Record<string, unknown> }
+  | { type: 'flush' }
+  | { type: 'end' };
+
+// Server → client on /ws/dictation
+export type DictationServerMessage =
+  | { type: 'CONFIG_ACCEPTED' }
+  | { type: 'CONFIG_DENIED'; reason: string }
+  | { type: 'transcript'; data: DictationTranscriptData }
+  | { type: 'command'; data: DictationCommandData }
+  | { type: 'flushed' }
+  | { type: 'usage'; credits: number }
+  | { type: 'budget_warning'; scope: BudgetScope; used: number; limit: number }
+  | { type: 'budget_exceeded'; scope: BudgetScope; used: number; limit: number }
+  | { type: 'ended' }
+  | { type: 'error'; message: string };
+
+export type ClientMessageType = ClientMessage['type'];
+export type ServerMessageType = ServerMessage['type'];
+export type DictationClientMessageType = DictationClientMessage['type'];
+export type DictationServerMessageType = DictationServerMessage['type'];
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; error: string };
+
+// ============================================
+// Field checks
+// ============================================
+
+type Check = (value: unknown) => boolean;
+type Shape = Record<string, Check>;
+
+const isString: Check = (value) => typeof value === 'string';
+const isNonEmptyString: Check = (value) => typeof value === 'string' && value.length > 0;
+const isNumber: Check = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Check = (value) => typeof value === 'boolean';
+const isBudgetScope: Check = (value) => value === 'session' || value === 'daily';
+const isDictationCommandId: Check = (value) => DICTATION_COMMAND_IDS.includes(value as DictationCommandId);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const optional = (check: Check): Check => (value) => value === undefined || check(value);
+
+const TRANSCRIPT_DATA: Shape = {
+  id: isNonEmptyString,
+  text: isString,
+  isFinal: isBoolean,
+  speakerId: optional(isNumber),
+  channel: optional(isNumber),
+  start: optional(isNumber),
+  end: optional(isNumber),
+};
+
+const STREAM_FACT: Shape = {
+  id: isNonEmptyString,
+  text: isString,
+  group: isString,
+  groupId: optional(isString),
+  isDiscarded: optional(isBoolean),
+  source: optional(isString),
+  createdAt: optional(isString),
+  updatedAt: optional(isString),
+};
+
+const DICTATION_TRANSCRIPT_DATA: Shape = {
+  id: isNonEmptyString,
+  text: isString,
+  rawTranscriptText: isString,
+  isFinal: isBoolean,
+  start: isNumber,
+  end: isNumber,
+};
+
+const DICTATION_COMMAND_DATA: Shape = {
+  id: isDictationCommandId,
+  rawTranscriptText: isString,
+  start: isNumber,
+  end: isNumber,
+};
+
+// Name of the first field that fails its check, or null
+const findInvalidField = (value: Record<string, unknown>, shape: Shape): string | null =>
+  Object.keys(shape).find(field => !shape[field](value[field])) ?? null;
+
+const matches = (shape: Shape): Check => (value) => isObject(value) && findInvalidField(value, shape) === null;
+
+const CLIENT_SHAPES: Record<ClientMessageType, Shape> = {
+  start: { encounter: isObject },
+  config: { configuration: isObject },
+  upload: { uploadId: isNonEmptyString },
+  flush: {},
+  pause: {},
+  resume: {},
+  end: {},
+};
+
+const SERVER_SHAPES: Record<ServerMessageType, Shape> = {
+  session_started: { interactionId: isNonEmptyString },
+  CONFIG_ACCEPTED: {},
+  CONFIG_DENIED: { reason: isString },
+  ack: { seq: isNumber },
+  resumed: { interactionId: isNonEmptyString, lastSeq: isNumber },
+  resume_failed: { reason: isString },
+  upload_progress: { sentBytes: isNumber, totalBytes: isNumber },
+  transcript: { data: matches(TRANSCRIPT_DATA) },
+  facts: { facts: (value) => Array.isArray(value) && value.every(matches(STREAM_FACT)) },
+  flushed: {},
+  usage: { credits: isNumber },
+  budget_warning: { scope: isBudgetScope, used: isNumber, limit: isNumber },
+  budget_exceeded: { scope: isBudgetScope, used: isNumber, limit: isNumber },
+  ended: {},
+  error: { message: isString },
+};
+
+const DICTATION_CLIENT_SHAPES: Record<DictationClientMessageType, Shape> = {
+  config: { configuration: isObject },
+  flush: {},
+  end: {},
+};
+
+const DICTATION_SERVER_SHAPES: Record<DictationServerMessageType, Shape> = {
+  CONFIG_ACCEPTED: {},
+  CONFIG_DENIED: { reason: isString },
+  transcript: { data: matches(DICTATION_TRANSCRIPT_DATA) },
+  command: { data: matches(DICTATION_COMMAND_DATA) },
+  flushed: {},
+  usage: { credits: isNumber },
+  budget_warning: { scope: isBudgetScope, used: isNumber, limit: isNumber },
+  budget_exceeded: { scope: isBudgetScope, used: isNumber, limit: isNumber },
+  ended: {},
+  error: { message: isString },
+};
+
+// ============================================
+// Validation
+// ============================================
+
+const validate = <T extends { type: string }>(
+  value: unknown,
+  shapes: Record<string, Shape>
+): ParseResult<T> => {
+  if (!isObject(value)) {
+    return { ok: false, error: 'Message must be a JSON object' };
+  }
+  if (value.version !== PROTOCOL_VERSION) {
+    return { ok: false, error: `Protocol version mismatch: expected ${PROTOCOL_VERSION}, got ${String(value.version)}` };
+  }
+  if (typeof value.type !== 'string' || !Object.hasOwn(shapes, value.type)) {
+    return { ok: false, error: `Unknown message type: ${String(value.type)}` };
+  }
+  const invalidField = findInvalidField(value, shapes[value.type]);
+  if (invalidField) {
+    return { ok: false, error: `Invalid field "${invalidField}" in ${value.type} message` };
+  }
+  return { ok: true, message: value as unknown as T };
+};
+
+const parse = <T extends { type: string }>(
+  raw: string,
+  shapes: Record<string, Shape>
+): ParseResult<T> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'Message is not valid JSON' };
+  }
+  return validate<T>(value, shapes);
+};
+
+export const validateClientMessage = (value: unknown) => validate<ClientMessage>(value, CLIENT_SHAPES);
+export const validateServerMessage = (value: unknown) => validate<ServerMessage>(value, SERVER_SHAPES);
+
+export const parseClientMessage = (raw: string) => parse<ClientMessage>(raw, CLIENT_SHAPES);
+export const parseServerMessage = (raw: string) => parse<ServerMessage>(raw, SERVER_SHAPES);
+
+export const validateDictationServerMessage = (value: unknown) =>
+  validate<DictationServerMessage>(value, DICTATION_SERVER_SHAPES);
+
+export const parseDictationClientMessage = (raw: string) =>
+  parse<DictationClientMessage>(raw, DICTATION_CLIENT_SHAPES);
+export const parseDictationServerMessage = (raw: string) =>
+  parse<DictationServerMessage>(raw, DICTATION_SERVER_SHAPES);
+
+// Serialize a message with the current protocol version
+export const encodeMessage = (
+  message: ClientMessage | ServerMessage | DictationClientMessage | DictationServerMessage
+): string =>
+  JSON.stringify({ ...message, version: PROTOCOL_VERSION });
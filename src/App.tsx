@@ -1,30 +1,83 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import AmbientDocumentation from './components/AmbientDocumentation';
+import Dictation from './components/Dictation';
+import LoginForm from './components/LoginForm';
+import { api, buildUrl } from './constants';
+import { authFetch, getAuthSession, onAuthChange, setAuthSession } from './utils/auth';
 import styles from './App.module.css';
 
+type Tab = 'ambient' | 'dictation';
+
+const TABS: { value: Tab; title: string; subtitle: string }[] = [
+  {
+    value: 'ambient',
+    title: 'Ambient Scribe Documentation',
+    subtitle: 'AI-powered transcription, fact extraction, and document generation for healthcare',
+  },
+  {
+    value: 'dictation',
+    title: 'Dictation',
+    subtitle: 'Dictate notes with spoken punctuation and formatting commands',
+  },
+];
+
 const App: React.FC = () => {
+  const [authSession, setAuthSessionState] = useState(getAuthSession);
+  const [activeTab, setActiveTab] = useState<Tab>('ambient');
+
+  useEffect(() => onAuthChange(setAuthSessionState), []);
+
+  const signOut = async () => {
+    try {
+      await authFetch(buildUrl(api.endpoints.logout), { method: 'POST' });
+    } catch (err) {
+      // The token is dropped locally either way
+      console.error('Logout error:', err);
+    }
+    setAuthSession(null);
+  };
+
   return (
     <div className={styles.container}>
       {/* Header */}
       <div className={styles.header}>
         <div className={styles.headerContent}>
-          <h1 className={styles.title}>
-            Corti API JavaScript SDK Demo
-          </h1>
+          <div className={styles.titleRow}>
+            <h1 className={styles.title}>
+              Corti API JavaScript SDK Demo
+            </h1>
+            {authSession && (
+              <div className={styles.account}>
+                <span>{authSession.user.username}</span>
+                <button onClick={signOut} className={styles.signOutButton}>
+                  Sign out
+                </button>
+              </div>
+            )}
+          </div>
           <p className={styles.subtitle}>
             Built using the Corti Web Socket API to demonstrate ambient scribe capabilities
           </p>
 
           {/* Tab Header */}
-          <div className={styles.tabHeader}>
-            <div>
-              <span className={styles.tabTitle}>
-                Ambient Scribe Documentation
-              </span>
-              <span className={styles.tabSubtitle}>
-                AI-powered transcription, fact extraction, and document generation for healthcare
-              </span>
-            </div>
+          <div className={styles.tabHeader} role="tablist">
+            {TABS.map(tab => (
+              <button
+                key={tab.value}
+                role="tab"
+                aria-selected={activeTab === tab.value}
+                onClick={() => setActiveTab(tab.value)}
+                disabled={!authSession}
+                className={activeTab === tab.value ? styles.tabActive : styles.tab}
+              >
+                <span className={styles.tabTitle}>
+                  {tab.title}
+                </span>
+                <span className={styles.tabSubtitle}>
+                  {tab.subtitle}
+                </span>
+              </button>
+            ))}
           </div>
         </div>
       </div>
@@ -32,7 +85,18 @@ const App: React.FC = () => {
       {/* Content */}
       <div className={styles.content}>
         <div className={styles.contentInner}>
-          <AmbientDocumentation />
+          {/* Keyed by user so nothing from a previous account survives a sign-in.
+              Both tabs stay mounted, so switching doesn't end a recording. */}
+          {authSession ? (
+            <>
+              <div hidden={activeTab !== 'ambient'}>
+                <AmbientDocumentation key={authSession.user.id} />
+              </div>
+              <div hidden={activeTab !== 'dictation'}>
+                <Dictation key={authSession.user.id} />
+              </div>
+            </>
+          ) : <LoginForm />}
         </div>
       </div>
     </div>
@@ -1,35 +1,93 @@
 import React, { useState, useRef, useEffect } from 'react';
 import DocumentGeneration from './DocumentGeneration';
-import { colors, factGroups, buildWsUrl, api } from '../constants';
+import StreamSettingsPanel from './StreamSettingsPanel';
+import EncounterForm from './EncounterForm';
+import TranscriptView from './TranscriptView';
+import SessionAudioPlayer from './SessionAudioPlayer';
+import SessionHistory, { type StoredSession } from './SessionHistory';
+import FactsPanel, { type Fact } from './FactsPanel';
+import {
+  colors,
+  buildUrl,
+  buildWsUrl,
+  api,
+  ACCEPTED_AUDIO_FILES,
+  DEFAULT_ENCOUNTER,
+  DEFAULT_STREAM_SETTINGS,
+  type AudioEncoding,
+  type EncounterSettings,
+  type ParticipantRole,
+  type StreamSettings,
+} from '../constants';
+import { getSpeakerKey, labelsFromRoles } from '../utils/transcript';
+import { authFetch, withAuthToken } from '../utils/auth';
+import { mergeChannels, openRemoteAudio } from '../utils/remoteAudio';
+import {
+  isPcmCaptureSupported,
+  PCM_SAMPLE_RATE,
+  startPcmCapture,
+  type PcmCapture,
+} from '../utils/pcmCapture';
+import {
+  encodeMessage,
+  parseServerMessage,
+  type BudgetScope,
+  type ServerMessage,
+  type TranscriptData,
+} from '../../shared/wsProtocol';
 import styles from './AmbientDocumentation.module.css';
 
-interface TranscriptSegment {
-  id: string;
-  text: string;
-  isFinal: boolean;
-  speakerId?: number;
-  channel?: number;
-  start?: number;
-  end?: number;
+interface TranscriptSegment extends TranscriptData {
+  // Speaker key derived from speakerId/channel (see getSpeakerKey)
+  speaker?: string;
 }
 
-interface Fact {
-  id: string;
-  text: string;
-  group: string;
-  groupId?: string;
-  isDiscarded?: boolean;
-  source?: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
+type Status = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+type CaptureMode = 'live' | 'upload';
+
+// Reconnect backoff; the backend keeps a dropped stream open for about a minute
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+
+const describeBudget = (scope: BudgetScope) =>
+  scope === 'session' ? 'session credit budget' : 'daily credit budget';
+
+// Audio format declared in the configuration; uploads carry their own container
+const toAudioFormat = (encoding: AudioEncoding, channels: number) =>
+  encoding === 'pcm16'
+    ? { encoding, sampleRate: PCM_SAMPLE_RATE, channels }
+    : { encoding };
 
-type Status = 'disconnected' | 'connecting' | 'connected' | 'error';
+// Map the encounter form onto the `start` message; the backend fills in blanks
+const toStartEncounter = (encounter: EncounterSettings) => ({
+  type: encounter.type,
+  ...(encounter.identifier.trim() && { identifier: encounter.identifier.trim() }),
+  ...(encounter.title.trim() && { title: encounter.title.trim() }),
+  ...(encounter.patientIdentifier.trim() && { patient: { identifier: encounter.patientIdentifier.trim() } }),
+});
+
+// Map the settings panel onto the /stream configuration shape the backend validates
+const toStreamConfiguration = (settings: StreamSettings, encoding: AudioEncoding | null) => ({
+  transcription: {
+    primaryLanguage: settings.primaryLanguage,
+    isDiarization: settings.isDiarization,
+    isMultichannel: settings.isMultichannel,
+    participants: settings.roles.map((role, channel) => ({ channel, role })),
+  },
+  mode: settings.mode === 'facts'
+    ? { type: settings.mode, outputLocale: settings.outputLocale }
+    : { type: settings.mode },
+  ...(encoding && { audio: toAudioFormat(encoding, settings.isMultichannel ? settings.roles.length : 1) }),
+});
 
 const AmbientDocumentation: React.FC = () => {
   const [status, setStatus] = useState<Status>('disconnected');
   const [isStreaming, setIsStreaming] = useState(false);
   const [isEnding, setIsEnding] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  // Set between sending pause/flush and the backend's 'flushed'
+  const [isFlushing, setIsFlushing] = useState(false);
   const [segments, setSegments] = useState<TranscriptSegment[]>([]);
   const [interimText, setInterimText] = useState('');
   const [facts, setFacts] = useState<Fact[]>([]);
@@ -39,33 +97,260 @@ const AmbientDocumentation: React.FC = () => {
   const [hasRecordedOnce, setHasRecordedOnce] = useState(false);
   const [interactionId, setInteractionId] = useState<string | null>(null);
   const [credits, setCredits] = useState<number | null>(null);
+  const [budgetWarning, setBudgetWarning] = useState('');
+  const [streamSettings, setStreamSettings] = useState<StreamSettings>(DEFAULT_STREAM_SETTINGS);
+  const [encounter, setEncounter] = useState<EncounterSettings>(DEFAULT_ENCOUNTER);
+  const [speakerLabels, setSpeakerLabels] = useState<Record<string, string>>({});
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('live');
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  // A past session opened from history; the view is read-only while set
+  const [pastSession, setPastSession] = useState<StoredSession | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  // Position of the session audio player in seconds; null until it plays
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
 
   const wsRef = useRef<WebSocket | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Channel 1 of a multichannel session: the shared call audio or a second input
+  const remoteStreamRef = useRef<MediaStream | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const pcmCaptureRef = useRef<PcmCapture | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  // The microphone, or the merged channels of a multichannel session
+  const sourceNodeRef = useRef<AudioNode | null>(null);
+  // Encoding of the live capture; null for an uploaded recording
+  const audioEncodingRef = useRef<AudioEncoding | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const playerRef = useRef<HTMLAudioElement | null>(null);
   const timerRef = useRef<number | null>(null);
-  const transcriptEndRef = useRef<HTMLDivElement>(null);
+  // Set while an uploaded recording is waiting for CONFIG_ACCEPTED
+  const uploadIdRef = useRef<string | null>(null);
 
-  useEffect(() => {
-    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [segments, interimText]);
+  // Resume state: audio chunks are numbered and kept until the backend acks
+  // them, so they can be re-sent after a reconnect
+  const interactionIdRef = useRef<string | null>(null);
+  const isSessionLiveRef = useRef(false);
+  const isEndRequestedRef = useRef(false);
+  const isPausedRef = useRef(false);
+  // WebM only: send 'pause' once the recorder has delivered its last chunk
+  const isPausePendingRef = useRef(false);
+  const canSendAudioRef = useRef(false);
+  const audioSeqRef = useRef(0);
+  const ackedSeqRef = useRef(0);
+  const audioBufferRef = useRef<{ seq: number; data: ArrayBuffer }[]>([]);
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
 
   useEffect(() => {
+    // On unmount, end the session outright instead of leaving it to the resume window
     return () => {
-      stopStreaming();
+      isEndRequestedRef.current = true;
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+      }
+      if (timerRef.current) {
+        clearInterval(timerRef.current);
+      }
+      if (mediaRecorderRef.current?.state === 'recording') {
+        mediaRecorderRef.current.stop();
+      }
+      pcmCaptureRef.current?.stop();
+      audioContextRef.current?.close();
+      streamRef.current?.getTracks().forEach(t => t.stop());
+      remoteStreamRef.current?.getTracks().forEach(t => t.stop());
+      if (wsRef.current?.readyState === WebSocket.OPEN) {
+        wsRef.current.send(encodeMessage({ type: 'end' }));
+      }
     };
   }, []);
 
-  const startStreaming = async () => {
+  const openSession = (url = buildWsUrl(api.ws.ambient)) => {
+    const ws = new WebSocket(withAuthToken(url));
+    wsRef.current = ws;
+
+    ws.onopen = () => {
+      console.log('Ambient WebSocket connected');
+      // A new session starts with the encounter; a resume already has its interaction
+      if (!interactionIdRef.current) {
+        ws.send(encodeMessage({ type: 'start', encounter: toStartEncounter(encounter) }));
+      }
+    };
+
+    ws.onmessage = (event) => {
+      const result = parseServerMessage(event.data);
+      if (!result.ok) {
+        console.error('Invalid WebSocket message:', result.error, event.data);
+        setError(`Unexpected message from the server: ${result.error}`);
+        return;
+      }
+      handleWebSocketMessage(result.message);
+    };
+
+    ws.onerror = (e) => {
+      console.error('WebSocket error:', e);
+      // A live session is recovered by onclose; only a failed start is fatal
+      if (isSessionLiveRef.current) return;
+      setError('Connection error. Make sure the backend is running.');
+      setStatus('error');
+      stopStreaming();
+    };
+
+    ws.onclose = (e) => {
+      console.log('WebSocket closed:', e.code, e.reason);
+      if (wsRef.current !== ws) return;
+      wsRef.current = null;
+      canSendAudioRef.current = false;
+
+      if (isSessionLiveRef.current && !isEndRequestedRef.current) {
+        scheduleReconnect();
+      } else if (isSessionLiveRef.current) {
+        // Closed before 'ended' arrived; nothing more will come
+        finishSession();
+      }
+    };
+  };
+
+  const scheduleReconnect = () => {
+    const attempt = reconnectAttemptsRef.current++;
+    if (attempt >= MAX_RECONNECT_ATTEMPTS || !interactionIdRef.current) {
+      abandonSession('Connection lost and could not be re-established. The transcript so far has been kept.');
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+    console.log(`Reconnecting in ${delay}ms (attempt ${attempt + 1}/${MAX_RECONNECT_ATTEMPTS})`);
+    setStatus('reconnecting');
+
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      const params = new URLSearchParams({
+        resume: interactionIdRef.current || '',
+        ack: String(ackedSeqRef.current),
+      });
+      openSession(`${buildWsUrl(api.ws.ambient)}?${params}`);
+    }, delay);
+  };
+
+  const clearReconnect = () => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptsRef.current = 0;
+  };
+
+  // Number each chunk and keep it until acked; send now if the socket is usable
+  const sendAudio = (data: ArrayBuffer) => {
+    const seq = ++audioSeqRef.current;
+    audioBufferRef.current.push({ seq, data });
+    if (canSendAudioRef.current && wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(data);
+    }
+  };
+
+  const trimAudioBuffer = (seq: number) => {
+    ackedSeqRef.current = Math.max(ackedSeqRef.current, seq);
+    audioBufferRef.current = audioBufferRef.current.filter(chunk => chunk.seq > seq);
+  };
+
+  const releaseCapture = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      mediaRecorderRef.current.stop();
+    }
+    mediaRecorderRef.current = null;
+    pcmCaptureRef.current?.stop();
+    pcmCaptureRef.current = null;
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(t => t.stop());
+      streamRef.current = null;
+    }
+    remoteStreamRef.current?.getTracks().forEach(t => t.stop());
+    remoteStreamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    sourceNodeRef.current = null;
+    setAudioLevel(0);
+    analyserRef.current = null;
+  };
+
+  const clearPause = () => {
+    isPausedRef.current = false;
+    isPausePendingRef.current = false;
+    setIsPaused(false);
+    setIsFlushing(false);
+  };
+
+  const finishSession = () => {
+    isSessionLiveRef.current = false;
+    canSendAudioRef.current = false;
+    audioBufferRef.current = [];
+    clearReconnect();
+    setIsStreaming(false);
+    setIsEnding(false);
+    clearPause();
+    setStatus('disconnected');
+    setUploadProgress(null);
+    setHistoryRefreshKey(prev => prev + 1);
+  };
+
+  const abandonSession = (message: string) => {
+    releaseCapture();
+    finishSession();
+    setError(message);
+    setStatus('error');
+    if (wsRef.current) {
+      wsRef.current.close();
+      wsRef.current = null;
+    }
+  };
+
+  const prepareSession = () => {
+    interactionIdRef.current = null;
+    isSessionLiveRef.current = false;
+    isEndRequestedRef.current = false;
+    canSendAudioRef.current = false;
+    audioSeqRef.current = 0;
+    ackedSeqRef.current = 0;
+    audioBufferRef.current = [];
+    audioEncodingRef.current = null;
+    clearPause();
+    clearReconnect();
     setError('');
+    setBudgetWarning('');
     setStatus('connecting');
     setDuration(0);
+    setSpeakerLabels(streamSettings.isMultichannel ? labelsFromRoles(streamSettings.roles) : {});
+  };
+
+  const startStreaming = async () => {
+    prepareSession();
+    // Without AudioWorklet support, fall back to MediaRecorder
+    audioEncodingRef.current = streamSettings.audioEncoding === 'pcm16' && isPcmCaptureSupported()
+      ? 'pcm16'
+      : 'webm-opus';
 
     try {
+      // Multichannel: the microphone is channel 0 and the call audio channel 1.
+      // The call audio is opened first, while the click still counts for getDisplayMedia
+      const remoteStream = streamSettings.isMultichannel
+        ? await openRemoteAudio(streamSettings.remoteSource, streamSettings.remoteDeviceId)
+        : null;
+      remoteStreamRef.current = remoteStream;
+      remoteStream?.getAudioTracks()[0].addEventListener('ended', () => {
+        if (remoteStreamRef.current === remoteStream) {
+          setError('Call audio is no longer shared; channel 1 is silent from here on.');
+        }
+      });
+
+      // No sample rate hint: browsers capture at their native rate and the
+      // PCM path resamples to 16 kHz itself
       const stream = await navigator.mediaDevices.getUserMedia({
         audio: {
-          sampleRate: 16000,
           channelCount: 1,
           echoCancellation: true,
           noiseSuppression: true,
@@ -74,56 +359,80 @@ const AmbientDocumentation: React.FC = () => {
       streamRef.current = stream;
 
       const audioCtx = new AudioContext();
-      const source = audioCtx.createMediaStreamSource(stream);
+      audioContextRef.current = audioCtx;
+      const source = remoteStream
+        ? mergeChannels(audioCtx, [stream, remoteStream])
+        : audioCtx.createMediaStreamSource(stream);
+      sourceNodeRef.current = source;
       const analyser = audioCtx.createAnalyser();
       analyser.fftSize = 256;
       source.connect(analyser);
       analyserRef.current = analyser;
 
-      const ws = new WebSocket(buildWsUrl(api.ws.ambient));
-      wsRef.current = ws;
+      openSession();
+    } catch (err) {
+      console.error('Failed to start streaming:', err);
+      releaseCapture();
+      setError(err instanceof Error ? err.message : 'Failed to access microphone');
+      setStatus('error');
+    }
+  };
 
-      ws.onopen = () => {
-        console.log('Ambient WebSocket connected');
-      };
+  // Upload the selected recording, then run it through the same /ws/ambient
+  // session as live audio once the stream configuration is accepted
+  const startUpload = async () => {
+    if (!uploadFile) return;
+    prepareSession();
+    setUploadProgress(0);
 
-      ws.onmessage = (event) => {
-        try {
-          const msg = JSON.parse(event.data);
-          handleWebSocketMessage(msg);
-        } catch (e) {
-          console.error('Failed to parse WebSocket message:', e);
-        }
-      };
+    try {
+      const form = new FormData();
+      form.append('audio', uploadFile);
 
-      ws.onerror = (e) => {
-        console.error('WebSocket error:', e);
-        setError('Connection error. Make sure the backend is running.');
-        setStatus('error');
-        stopStreaming();
-      };
+      const response = await authFetch(buildUrl(api.endpoints.uploads), {
+        method: 'POST',
+        body: form
+      });
 
-      ws.onclose = (e) => {
-        console.log('WebSocket closed:', e.code, e.reason);
-        if (isStreaming) {
-          setStatus('disconnected');
-          stopStreaming();
-        }
-      };
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to upload recording');
+      }
 
+      const { uploadId } = await response.json();
+      uploadIdRef.current = uploadId;
+      openSession();
     } catch (err) {
-      console.error('Failed to start streaming:', err);
-      setError(err instanceof Error ? err.message : 'Failed to access microphone');
+      console.error('Failed to upload recording:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload recording');
       setStatus('error');
+      setUploadProgress(null);
     }
   };
 
-  const handleWebSocketMessage = (msg: Record<string, unknown>) => {
+  // Merge fact updates by id, from the stream or from clinician edits. Discarded
+  // facts stay in the list so they can be restored.
+  const upsertFacts = (updates: Fact[]) => {
+    setFacts(prev => {
+      const factMap = new Map(prev.map(f => [f.id, f]));
+      updates.forEach(fact => {
+        factMap.set(fact.id, { ...factMap.get(fact.id), ...fact });
+      });
+      return Array.from(factMap.values());
+    });
+  };
+
+  const handleWebSocketMessage = (msg: ServerMessage) => {
     console.log('WS Message:', msg.type, msg);
 
     switch (msg.type) {
       case 'session_started':
-        setInteractionId(msg.interactionId as string);
+        setInteractionId(msg.interactionId);
+        interactionIdRef.current = msg.interactionId;
+        wsRef.current?.send(encodeMessage({
+          type: 'config',
+          configuration: toStreamConfiguration(streamSettings, audioEncodingRef.current),
+        }));
         break;
 
       case 'CONFIG_ACCEPTED':
@@ -131,63 +440,122 @@ const AmbientDocumentation: React.FC = () => {
         setStatus('connected');
         setIsStreaming(true);
         setHasRecordedOnce(true);
-        startAudioCapture();
+        isSessionLiveRef.current = true;
+        canSendAudioRef.current = true;
         startTimer();
-        updateAudioLevel();
+        if (uploadIdRef.current) {
+          wsRef.current?.send(encodeMessage({ type: 'upload', uploadId: uploadIdRef.current }));
+          uploadIdRef.current = null;
+        } else {
+          startAudioCapture();
+          updateAudioLevel();
+        }
         break;
 
-      case 'CONFIG_DENIED':
-        setError(`Configuration denied: ${(msg.reason as string) || 'Unknown reason'}`);
-        setStatus('error');
+      case 'ack':
+        trimAudioBuffer(msg.seq);
+        break;
+
+      case 'resumed': {
+        // Drop what the backend already has and re-send the rest in order
+        trimAudioBuffer(msg.lastSeq);
+        console.log(`Session resumed, re-sending ${audioBufferRef.current.length} buffered chunks`);
+        audioBufferRef.current.forEach(chunk => wsRef.current?.send(chunk.data));
+        canSendAudioRef.current = true;
+        reconnectAttemptsRef.current = 0;
+        // The pause or resume may have been lost with the old connection
+        wsRef.current?.send(encodeMessage({ type: isPausedRef.current ? 'pause' : 'resume' }));
+        setStatus('connected');
+        setError('');
+        break;
+      }
+
+      case 'resume_failed':
+        abandonSession(`Connection lost and the session could not be resumed: ${msg.reason || 'Unknown reason'}`);
         break;
 
-      case 'transcript':
-        if (msg.data) {
-          const data = msg.data as TranscriptSegment;
-          if (data.isFinal) {
-            setSegments(prev => {
-              const exists = prev.some(s => s.id === data.id);
-              if (exists) {
-                return prev.map(s => s.id === data.id ? { ...s, ...data } : s);
-              }
-              return [...prev, data];
-            });
-            setInterimText('');
-          } else {
-            setInterimText(data.text || '');
+      case 'upload_progress': {
+        const progress = msg.sentBytes / (msg.totalBytes || 1);
+        setUploadProgress(progress);
+        if (progress >= 1) {
+          // The whole file is in; wait for the final results and ENDED
+          if (timerRef.current) {
+            clearInterval(timerRef.current);
+            timerRef.current = null;
           }
+          setIsEnding(true);
         }
         break;
+      }
 
-      case 'facts':
-        if (msg.facts && Array.isArray(msg.facts)) {
-          setFacts(prev => {
-            const factMap = new Map(prev.map(f => [f.id, f]));
-            (msg.facts as Fact[]).forEach((newFact: Fact) => {
-              if (!newFact.isDiscarded) {
-                factMap.set(newFact.id, newFact);
-              } else {
-                factMap.delete(newFact.id);
-              }
-            });
-            return Array.from(factMap.values());
+      case 'CONFIG_DENIED':
+        setError(`Configuration denied: ${msg.reason || 'Unknown reason'}`);
+        setStatus('error');
+        stopStreaming();
+        break;
+
+      case 'transcript': {
+        const data: TranscriptSegment = {
+          ...msg.data,
+          speaker: getSpeakerKey(msg.data, streamSettings.isMultichannel),
+        };
+        if (data.isFinal) {
+          setSegments(prev => {
+            const exists = prev.some(s => s.id === data.id);
+            if (exists) {
+              return prev.map(s => s.id === data.id ? { ...s, ...data } : s);
+            }
+            return [...prev, data];
           });
+          setInterimText('');
+        } else {
+          setInterimText(data.text || '');
         }
         break;
+      }
+
+      case 'facts':
+        upsertFacts(msg.facts);
+        break;
+
+      case 'flushed':
+        setIsFlushing(false);
+        break;
 
       case 'usage':
-        setCredits(prev => (prev || 0) + (msg.credits as number));
+        setCredits(prev => (prev || 0) + msg.credits);
         break;
 
+      case 'budget_warning':
+        setBudgetWarning(
+          `${Math.round((msg.used / msg.limit) * 100)}% of the ${describeBudget(msg.scope)} used ` +
+          `(${msg.used.toFixed(4)} of ${msg.limit} credits)`
+        );
+        break;
+
+      case 'budget_exceeded': {
+        const message = `The ${describeBudget(msg.scope)} of ${msg.limit} credits has been reached. ` +
+          'Recording was stopped; the transcript so far has been kept.';
+        setBudgetWarning('');
+        if (!isSessionLiveRef.current) {
+          abandonSession(message);
+          break;
+        }
+        // The backend ends the stream; wait for the final results and 'ended'
+        isEndRequestedRef.current = true;
+        releaseCapture();
+        setIsEnding(true);
+        setError(message);
+        break;
+      }
+
       case 'error':
-        setError((msg.message as string) || 'Stream error occurred');
+        setError(msg.message || 'Stream error occurred');
         break;
 
       case 'ended':
         console.log('Stream ended, closing connection');
-        setIsStreaming(false);
-        setIsEnding(false);
-        setStatus('disconnected');
+        finishSession();
         if (wsRef.current) {
           wsRef.current.close();
           wsRef.current = null;
@@ -196,24 +564,108 @@ const AmbientDocumentation: React.FC = () => {
     }
   };
 
-  const startAudioCapture = () => {
+  const startAudioCapture = async () => {
     if (!streamRef.current || !wsRef.current) return;
 
-    const mediaRecorder = new MediaRecorder(streamRef.current, {
+    const audioCtx = audioContextRef.current;
+    if (audioEncodingRef.current === 'pcm16' && audioCtx && sourceNodeRef.current) {
+      try {
+        const capture = await startPcmCapture(audioCtx, sourceNodeRef.current, {
+          channels: streamSettings.isMultichannel ? streamSettings.roles.length : 1,
+          onFrame: (frame) => {
+            if (!isEndRequestedRef.current && !isPausedRef.current) {
+              sendAudio(frame);
+            }
+          },
+        });
+        // Stopped while the worklet was loading
+        if (audioContextRef.current !== audioCtx) {
+          capture.stop();
+          return;
+        }
+        pcmCaptureRef.current = capture;
+      } catch (err) {
+        if (audioContextRef.current !== audioCtx) return;
+        // The stream was configured for PCM, so there is no switching formats now
+        console.error('Failed to start PCM capture:', err);
+        abandonSession('Failed to start audio capture. Try the WebM/Opus audio format.');
+      }
+      return;
+    }
+
+    // A multichannel recording takes the merged channels from the audio graph
+    let recordStream = streamRef.current;
+    if (streamSettings.isMultichannel && audioCtx && sourceNodeRef.current) {
+      const destination = audioCtx.createMediaStreamDestination();
+      destination.channelCount = streamSettings.roles.length;
+      destination.channelInterpretation = 'discrete';
+      sourceNodeRef.current.connect(destination);
+      recordStream = destination.stream;
+    }
+
+    const mediaRecorder = new MediaRecorder(recordStream, {
       mimeType: 'audio/webm;codecs=opus'
     });
     mediaRecorderRef.current = mediaRecorder;
 
     mediaRecorder.ondataavailable = async (event) => {
-      if (event.data.size > 0 && wsRef.current?.readyState === WebSocket.OPEN) {
-        const arrayBuffer = await event.data.arrayBuffer();
-        wsRef.current.send(arrayBuffer);
+      if (event.data.size > 0 && !isEndRequestedRef.current) {
+        sendAudio(await event.data.arrayBuffer());
+      }
+      if (isPausePendingRef.current && !isEndRequestedRef.current) {
+        isPausePendingRef.current = false;
+        sendControl('pause');
       }
     };
 
     mediaRecorder.start(500);
   };
 
+  const sendControl = (type: 'pause' | 'resume' | 'flush') => {
+    // While reconnecting, the 'resumed' handler re-sends the pause state
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(encodeMessage({ type }));
+    }
+  };
+
+  // Stop sending audio and collect pending results; the interaction and its
+  // stream stay open until resumed or stopped
+  const pauseStreaming = () => {
+    if (isPausedRef.current) return;
+    isPausedRef.current = true;
+    setIsPaused(true);
+    setIsFlushing(true);
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const recorder = mediaRecorderRef.current;
+    if (recorder?.state === 'recording') {
+      // Hand over the partial chunk first so the flush covers it
+      isPausePendingRef.current = true;
+      recorder.requestData();
+      recorder.pause();
+    } else {
+      sendControl('pause');
+    }
+  };
+
+  const resumeStreaming = () => {
+    if (!isPausedRef.current) return;
+    clearPause();
+    sendControl('resume');
+    if (mediaRecorderRef.current?.state === 'paused') {
+      mediaRecorderRef.current.resume();
+    }
+    startTimer();
+  };
+
+  const flushStreaming = () => {
+    setIsFlushing(true);
+    sendControl('flush');
+  };
+
   const startTimer = () => {
     timerRef.current = window.setInterval(() => {
       setDuration(prev => prev + 1);
@@ -232,46 +684,24 @@ const AmbientDocumentation: React.FC = () => {
   };
 
   const stopStreaming = () => {
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-
-    if (mediaRecorderRef.current?.state === 'recording') {
-      mediaRecorderRef.current.stop();
-    }
-    mediaRecorderRef.current = null;
-
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(t => t.stop());
-      streamRef.current = null;
-    }
+    isEndRequestedRef.current = true;
+    releaseCapture();
 
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       setIsEnding(true);
-      wsRef.current.send(JSON.stringify({ type: 'end' }));
+      wsRef.current.send(encodeMessage({ type: 'end' }));
     } else {
-      setIsStreaming(false);
-      setStatus('disconnected');
+      // Stopped while disconnected: the backend ends the stream when its resume window expires
+      finishSession();
     }
-
-    setAudioLevel(0);
-    analyserRef.current = null;
   };
 
   const reset = () => {
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    if (mediaRecorderRef.current?.state === 'recording') {
-      mediaRecorderRef.current.stop();
-    }
-    mediaRecorderRef.current = null;
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(t => t.stop());
-      streamRef.current = null;
-    }
+    releaseCapture();
+    isSessionLiveRef.current = false;
+    interactionIdRef.current = null;
+    audioBufferRef.current = [];
+    clearReconnect();
     if (wsRef.current) {
       wsRef.current.close();
       wsRef.current = null;
@@ -285,27 +715,68 @@ const AmbientDocumentation: React.FC = () => {
     setStatus('disconnected');
     setInteractionId(null);
     setCredits(null);
+    setBudgetWarning('');
+    setSpeakerLabels({});
+    setUploadProgress(null);
+    uploadIdRef.current = null;
+    setPastSession(null);
+    setPlaybackTime(null);
     setIsStreaming(false);
     setIsEnding(false);
     setHasRecordedOnce(false);
-    setAudioLevel(0);
-    analyserRef.current = null;
   };
 
-  const formatTime = (s: number) =>
-    `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
+  const openPastSession = (session: StoredSession) => {
+    reset();
+    const transcription = session.configuration?.transcription;
+    const isMultichannel = !!transcription?.isMultichannel;
+    const roles = (transcription?.participants || []).map(p => p.role as ParticipantRole);
+
+    setPastSession(session);
+    setInteractionId(session.interactionId);
+    setSegments(session.transcript.map(seg => ({ ...seg, speaker: getSpeakerKey(seg, isMultichannel) })));
+    setFacts(session.facts);
+    setCredits(session.usage.credits || null);
+    setSpeakerLabels(isMultichannel ? labelsFromRoles(roles) : {});
+    setHasRecordedOnce(true);
+  };
 
-  const groupedFacts = facts.reduce((acc, fact) => {
-    const group = fact.group || 'other';
-    if (!acc[group]) acc[group] = [];
-    acc[group].push(fact);
-    return acc;
-  }, {} as Record<string, Fact[]>);
+  const relabelSpeaker = (speaker: string, label: string) => {
+    setSpeakerLabels(prev => {
+      const next = { ...prev };
+      if (label) {
+        next[speaker] = label;
+      } else {
+        delete next[speaker];
+      }
+      return next;
+    });
+  };
 
-  const getGroupStyle = (group: string) => {
-    return factGroups[group] || { label: group, color: '#6B7280', bg: '#F9FAFB' };
+  // Transcript times are seconds into the stream, which is what the archive holds
+  const seekPlayback = (segment: { start?: number }) => {
+    const player = playerRef.current;
+    if (!player || segment.start === undefined) return;
+    player.currentTime = segment.start;
+    player.play().catch(err => console.error('Audio playback error:', err));
   };
 
+  const activeSegmentId = playbackTime === null
+    ? null
+    : segments.find(seg =>
+        seg.start !== undefined && seg.end !== undefined &&
+        playbackTime >= seg.start && playbackTime < seg.end
+      )?.id ?? null;
+
+  const isUploadMode = captureMode === 'upload';
+  const isStartBlocked =
+    status === 'connecting' || isEnding || (!isStreaming && isUploadMode && !uploadFile);
+
+  const formatTime = (s: number) =>
+    `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
+
+  const activeFacts = facts.filter(f => !f.isDiscarded);
+
   const renderEmptyState = (type: 'transcript' | 'facts') => {
     if (isStreaming) {
       return type === 'transcript' ? 'Transcribing...' : 'Extracting clinical facts...';
@@ -335,58 +806,177 @@ const AmbientDocumentation: React.FC = () => {
       {/* Stream Control */}
       <div className={styles.controlPanel}>
         <div className={styles.controlContent}>
+          {pastSession && (
+            <div className={styles.pastSessionBanner}>
+              <span>
+                Viewing {pastSession.source === 'upload' ? 'uploaded' : 'recorded'} session
+                {pastSession.encounter?.title ? ` "${pastSession.encounter.title}"` : ''} from{' '}
+                {new Date(pastSession.startedAt).toLocaleString()} (read-only)
+              </span>
+              <button onClick={reset} className={styles.resetButton}>
+                New session
+              </button>
+            </div>
+          )}
+
+          {/* Pre-session Settings */}
+          {!isStreaming && !isEnding && !pastSession && (
+            <>
+              <div className={styles.modeToggle}>
+                <button
+                  onClick={() => setCaptureMode('live')}
+                  disabled={status === 'connecting'}
+                  className={captureMode === 'live' ? styles.modeActive : styles.modeInactive}
+                >
+                  Live recording
+                </button>
+                <button
+                  onClick={() => setCaptureMode('upload')}
+                  disabled={status === 'connecting'}
+                  className={captureMode === 'upload' ? styles.modeActive : styles.modeInactive}
+                >
+                  Upload recording
+                </button>
+              </div>
+
+              <EncounterForm
+                encounter={encounter}
+                onChange={setEncounter}
+                disabled={status === 'connecting'}
+              />
+
+              <StreamSettingsPanel
+                settings={streamSettings}
+                onChange={setStreamSettings}
+                disabled={status === 'connecting'}
+              />
+
+              {captureMode === 'upload' && (
+                <input
+                  type="file"
+                  accept={ACCEPTED_AUDIO_FILES}
+                  onChange={(e) => setUploadFile(e.target.files?.[0] || null)}
+                  disabled={status === 'connecting'}
+                  className={styles.fileInput}
+                />
+              )}
+            </>
+          )}
+
           {/* Streaming Button */}
-          <div style={{ position: 'relative' }}>
-            {isStreaming && !isEnding && (
-              <div 
-                className={styles.audioRing}
+          {!pastSession && (
+            <>
+            <div style={{ position: 'relative' }}>
+              {isStreaming && !isEnding && !isPaused && (
+                <div 
+                  className={styles.audioRing}
+                  style={{
+                    opacity: 0.3 + audioLevel * 0.7,
+                    transform: `scale(${1 + audioLevel * 0.2})`,
+                  }}
+                />
+              )}
+              <button
+                onClick={isStreaming ? stopStreaming : (isUploadMode ? startUpload : startStreaming)}
+                disabled={isStartBlocked}
+                className={styles.recordButton}
                 style={{
-                  opacity: 0.3 + audioLevel * 0.7,
-                  transform: `scale(${1 + audioLevel * 0.2})`,
+                  backgroundColor: isEnding ? colors.asteroid : (isStreaming ? colors.recording : colors.black),
+                  opacity: isStartBlocked ? 0.5 : 1,
                 }}
-              />
-            )}
-            <button
-              onClick={isStreaming ? stopStreaming : startStreaming}
-              disabled={status === 'connecting' || isEnding}
-              className={styles.recordButton}
-              style={{
-                backgroundColor: isEnding ? colors.asteroid : (isStreaming ? colors.recording : colors.black),
-                opacity: (status === 'connecting' || isEnding) ? 0.5 : 1,
-              }}
-            >
-              {isEnding ? (
-                <div className={styles.spinner} />
+              >
+                {isEnding ? (
+                  <div className={styles.spinner} />
+                ) : isStreaming ? (
+                  <div className={styles.stopIcon} />
+                ) : isUploadMode ? (
+                  <svg width="32" height="32" viewBox="0 0 24 24" fill="none" stroke={colors.white} strokeWidth="2" strokeLinecap="round">
+                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                    <polyline points="17 8 12 3 7 8" />
+                    <line x1="12" y1="3" x2="12" y2="15" />
+                  </svg>
+                ) : (
+                  <svg width="32" height="32" viewBox="0 0 24 24" fill="none">
+                    <path d="M12 2C10.3431 2 9 3.34315 9 5V12C9 13.6569 10.3431 15 12 15C13.6569 15 15 13.6569 15 12V5C15 3.34315 13.6569 2 12 2Z" fill={colors.white} />
+                    <path d="M5 10V12C5 15.866 8.13401 19 12 19C15.866 19 19 15.866 19 12V10" stroke={colors.white} strokeWidth="2" strokeLinecap="round" />
+                    <path d="M12 19V22M12 22H9M12 22H15" stroke={colors.white} strokeWidth="2" strokeLinecap="round" />
+                  </svg>
+                )}
+              </button>
+            </div>
+
+            {/* Status */}
+            <div className={styles.statusText}>
+              {status === 'connecting' ? (
+                <span>{uploadProgress !== null ? 'Uploading...' : 'Connecting...'}</span>
+              ) : isEnding ? (
+                <div className={styles.statusWithIcon}>
+                  <div className={styles.spinnerSmall} />
+                  <span>Processing final results...</span>
+                </div>
+              ) : status === 'reconnecting' ? (
+              <div className={styles.statusWithIcon}>
+                <div className={styles.spinnerSmall} />
+                <span>Reconnecting • {formatTime(duration)} (audio is buffered)</span>
+              </div>
+            ) : isStreaming && isPaused ? (
+                <div className={styles.statusWithIcon}>
+                  {isFlushing ? <div className={styles.spinnerSmall} /> : <div className={styles.pausedDot} />}
+                  <span>
+                    Paused • {formatTime(duration)}
+                    {isFlushing && ' • waiting for pending results...'}
+                  </span>
+                </div>
+              ) : isStreaming && uploadProgress !== null ? (
+                <div className={styles.statusWithIcon}>
+                  <div className={styles.spinnerSmall} />
+                  <span>Processing upload • {Math.round(uploadProgress * 100)}%</span>
+                </div>
               ) : isStreaming ? (
-                <div className={styles.stopIcon} />
+                <div className={styles.statusWithIcon}>
+                  <div className={styles.recordingDot} />
+                  <span>
+                    Recording • {formatTime(duration)}
+                    {isFlushing && ' • flushing...'}
+                  </span>
+                </div>
+              ) : isUploadMode ? (
+                <span>{uploadFile ? `Process ${uploadFile.name}` : 'Choose a recording to process'}</span>
               ) : (
-                <svg width="32" height="32" viewBox="0 0 24 24" fill="none">
-                  <path d="M12 2C10.3431 2 9 3.34315 9 5V12C9 13.6569 10.3431 15 12 15C13.6569 15 15 13.6569 15 12V5C15 3.34315 13.6569 2 12 2Z" fill={colors.white} />
-                  <path d="M5 10V12C5 15.866 8.13401 19 12 19C15.866 19 19 15.866 19 12V10" stroke={colors.white} strokeWidth="2" strokeLinecap="round" />
-                  <path d="M12 19V22M12 22H9M12 22H15" stroke={colors.white} strokeWidth="2" strokeLinecap="round" />
-                </svg>
+                <span>Record</span>
               )}
-            </button>
-          </div>
+            </div>
 
-          {/* Status */}
-          <div className={styles.statusText}>
-            {status === 'connecting' ? (
-              <span>Connecting...</span>
-            ) : isEnding ? (
-              <div className={styles.statusWithIcon}>
-                <div className={styles.spinnerSmall} />
-                <span>Processing final results...</span>
+            {/* Live session controls; the stop button ends the interaction */}
+            {isStreaming && !isEnding && uploadProgress === null && (
+              <div className={styles.sessionControls}>
+                <button
+                  onClick={isPaused ? resumeStreaming : pauseStreaming}
+                  className={styles.resetButton}
+                >
+                  {isPaused ? 'Resume' : 'Pause'}
+                </button>
+                <button
+                  onClick={flushStreaming}
+                  disabled={isPaused || isFlushing || status !== 'connected'}
+                  className={styles.resetButton}
+                  title="Process buffered audio now"
+                >
+                  Flush
+                </button>
               </div>
-            ) : isStreaming ? (
-              <div className={styles.statusWithIcon}>
-                <div className={styles.recordingDot} />
-                <span>Recording • {formatTime(duration)}</span>
+            )}
+
+            {uploadProgress !== null && isStreaming && (
+              <div className={styles.progressBar}>
+                <div
+                  className={styles.progressFill}
+                  style={{ width: `${Math.round(uploadProgress * 100)}%` }}
+                />
               </div>
-            ) : (
-              <span>Record</span>
             )}
-          </div>
+            </>
+          )}
 
           {interactionId && (
             <div className={styles.sessionId}>
@@ -402,6 +992,21 @@ const AmbientDocumentation: React.FC = () => {
         </div>
       )}
 
+      {budgetWarning && !error && (
+        <div className={styles.warningBanner}>
+          {budgetWarning}
+        </div>
+      )}
+
+      {interactionId && !isStreaming && !isEnding && (
+        <SessionAudioPlayer
+          key={interactionId}
+          interactionId={interactionId}
+          audioRef={playerRef}
+          onTimeUpdate={setPlaybackTime}
+        />
+      )}
+
       {/* Two-Column Layout */}
       <div className={styles.columnsContainer}>
         {/* Transcript Column */}
@@ -413,15 +1018,14 @@ const AmbientDocumentation: React.FC = () => {
                 {renderEmptyState('transcript')}
               </div>
             ) : (
-              <div className={styles.transcriptText}>
-                {segments.map((seg) => (
-                  <span key={seg.id}>{seg.text} </span>
-                ))}
-                {interimText && (
-                  <span className={styles.interimText}>{interimText}</span>
-                )}
-                <div ref={transcriptEndRef} />
-              </div>
+              <TranscriptView
+                segments={segments}
+                interimText={interimText}
+                speakerLabels={speakerLabels}
+                onRelabel={relabelSpeaker}
+                activeSegmentId={activeSegmentId}
+                onSegmentClick={interactionId && !isStreaming ? seekPlayback : undefined}
+              />
             )}
           </div>
         </div>
@@ -431,52 +1035,28 @@ const AmbientDocumentation: React.FC = () => {
           <h3 className={styles.columnHeader}>
             Extracted Facts (FactsR™)
             <span className={styles.factCount}>
-              {' '}•{' '}{facts.length} {facts.length === 1 ? 'item' : 'items'}
+              {' '}•{' '}{activeFacts.length} {activeFacts.length === 1 ? 'item' : 'items'}
             </span>
           </h3>
           <div className={styles.columnContent}>
-            {Object.keys(groupedFacts).length === 0 ? (
-              <div className={styles.emptyState}>
-                {renderEmptyState('facts')}
-              </div>
-            ) : (
-              <div className={styles.factsContainer}>
-                {Object.entries(groupedFacts).map(([group, groupFacts]) => {
-                  const style = getGroupStyle(group);
-                  return (
-                    <div key={group}>
-                      <div 
-                        className={styles.factGroupLabel}
-                        style={{ color: style.color }}
-                      >
-                        {style.label}
-                      </div>
-                      <div className={styles.factsList}>
-                        {groupFacts.map((fact) => (
-                          <div
-                            key={fact.id}
-                            className={styles.factItem}
-                            style={{
-                              backgroundColor: style.bg,
-                              borderColor: `${style.color}20`,
-                            }}
-                          >
-                            {fact.text}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            )}
+            <FactsPanel
+              interactionId={interactionId}
+              facts={facts}
+              onFactSaved={fact => upsertFacts([fact])}
+              emptyState={renderEmptyState('facts')}
+              readOnly={!!pastSession}
+            />
           </div>
         </div>
       </div>
 
       <DocumentGeneration
+        key={interactionId || 'no-session'}
         interactionId={interactionId}
-        facts={facts}
+        initialDocument={pastSession?.documents[pastSession.documents.length - 1] || null}
+        facts={activeFacts}
+        segments={segments}
+        speakerLabels={speakerLabels}
         disabled={isStreaming}
       />
 
@@ -494,6 +1074,13 @@ const AmbientDocumentation: React.FC = () => {
           Reset
         </button>
       </div>
+
+      <SessionHistory
+        activeInteractionId={interactionId}
+        onOpen={openPastSession}
+        refreshKey={historyRefreshKey}
+        disabled={isStreaming || isEnding || status === 'connecting'}
+      />
     </div>
   );
 };
@@ -0,0 +1,356 @@
+import React, { useEffect, useRef, useState } from 'react';
+import MarkdownPreview from './MarkdownPreview';
+import DictationInsert from './DictationInsert';
+import {
+  colors,
+  buildWsUrl,
+  api,
+  DEFAULT_DICTATION_SETTINGS,
+  SUPPORTED_LANGUAGES,
+  type AudioEncoding,
+  type DictationSettings,
+} from '../constants';
+import { withAuthToken } from '../utils/auth';
+import {
+  applyDictation,
+  bulletLines,
+  editDictation,
+  wrapSelection,
+  EMPTY_DICTATION,
+  type DictationDocument,
+} from '../utils/dictation';
+import {
+  isPcmCaptureSupported,
+  PCM_SAMPLE_RATE,
+  startPcmCapture,
+  type PcmCapture,
+} from '../utils/pcmCapture';
+import {
+  encodeMessage,
+  parseDictationServerMessage,
+  type DictationServerMessage,
+} from '../../shared/wsProtocol';
+import styles from './Dictation.module.css';
+
+type Status = 'idle' | 'connecting' | 'dictating' | 'ending';
+
+const COMMAND_HINTS = [
+  '"new paragraph"',
+  '"new line"',
+  '"delete that"',
+];
+
+// Audio format declared in the configuration; dictation is always mono
+const toAudioFormat = (encoding: AudioEncoding) =>
+  encoding === 'pcm16'
+    ? { encoding, sampleRate: PCM_SAMPLE_RATE, channels: 1 }
+    : { encoding };
+
+const Dictation: React.FC = () => {
+  const [status, setStatus] = useState<Status>('idle');
+  const [settings, setSettings] = useState<DictationSettings>(DEFAULT_DICTATION_SETTINGS);
+  const [doc, setDoc] = useState<DictationDocument>(EMPTY_DICTATION);
+  const [interimText, setInterimText] = useState('');
+  const [error, setError] = useState('');
+
+  const wsRef = useRef<WebSocket | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const pcmCaptureRef = useRef<PcmCapture | null>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const releaseCapture = () => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      mediaRecorderRef.current.stop();
+    }
+    mediaRecorderRef.current = null;
+    pcmCaptureRef.current?.stop();
+    pcmCaptureRef.current = null;
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+  };
+
+  useEffect(() => {
+    // On unmount, drop the microphone and the socket; the backend ends the dictation
+    return () => {
+      if (mediaRecorderRef.current?.state === 'recording') {
+        mediaRecorderRef.current.stop();
+      }
+      pcmCaptureRef.current?.stop();
+      streamRef.current?.getTracks().forEach(t => t.stop());
+      audioContextRef.current?.close();
+      wsRef.current?.close();
+    };
+  }, []);
+
+  const sendAudio = (data: ArrayBuffer) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(data);
+    }
+  };
+
+  const startAudioCapture = async (encoding: AudioEncoding) => {
+    const stream = streamRef.current;
+    const audioCtx = audioContextRef.current;
+    if (!stream) return;
+
+    if (encoding === 'pcm16' && audioCtx) {
+      const capture = await startPcmCapture(audioCtx, audioCtx.createMediaStreamSource(stream), {
+        channels: 1,
+        onFrame: sendAudio,
+      });
+      // Stopped while the worklet was loading
+      if (audioContextRef.current !== audioCtx) {
+        capture.stop();
+        return;
+      }
+      pcmCaptureRef.current = capture;
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream, { mimeType: 'audio/webm;codecs=opus' });
+    mediaRecorderRef.current = recorder;
+    recorder.ondataavailable = async (event) => {
+      if (event.data.size > 0) {
+        sendAudio(await event.data.arrayBuffer());
+      }
+    };
+    recorder.start(250);
+  };
+
+  const finish = (message = '') => {
+    releaseCapture();
+    wsRef.current = null;
+    setInterimText('');
+    setStatus('idle');
+    if (message) setError(message);
+  };
+
+  const handleMessage = (msg: DictationServerMessage, encoding: AudioEncoding) => {
+    switch (msg.type) {
+      case 'CONFIG_ACCEPTED':
+        setStatus('dictating');
+        startAudioCapture(encoding).catch(err => {
+          console.error('Failed to start dictation audio:', err);
+          wsRef.current?.close();
+          finish('Failed to start audio capture');
+        });
+        break;
+
+      case 'CONFIG_DENIED':
+        finish(`Configuration denied: ${msg.reason}`);
+        break;
+
+      case 'transcript':
+        if (msg.data.isFinal) {
+          setDoc(prev => applyDictation(prev, { type: 'phrase', text: msg.data.text }));
+          setInterimText('');
+        } else {
+          setInterimText(msg.data.text);
+        }
+        break;
+
+      case 'command':
+        setDoc(prev => applyDictation(prev, { type: 'command', id: msg.data.id }));
+        break;
+
+      case 'budget_warning':
+        setError(`Approaching the ${msg.scope === 'session' ? 'session' : 'daily'} credit budget (${msg.used.toFixed(4)} of ${msg.limit})`);
+        break;
+
+      case 'budget_exceeded':
+        setError(`The ${msg.scope === 'session' ? 'session' : 'daily'} credit budget is used up (${msg.limit}); dictation stopped`);
+        break;
+
+      case 'error':
+        setError(msg.message);
+        break;
+
+      case 'ended':
+        finish();
+        break;
+    }
+  };
+
+  const startDictation = async () => {
+    setError('');
+    setStatus('connecting');
+    const encoding: AudioEncoding = isPcmCaptureSupported() ? 'pcm16' : 'webm-opus';
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          channelCount: 1,
+          echoCancellation: true,
+          noiseSuppression: true,
+        }
+      });
+      streamRef.current = stream;
+      if (encoding === 'pcm16') {
+        audioContextRef.current = new AudioContext();
+      }
+    } catch (err) {
+      console.error('Failed to access microphone:', err);
+      finish(err instanceof Error ? err.message : 'Failed to access microphone');
+      return;
+    }
+
+    const ws = new WebSocket(withAuthToken(buildWsUrl(api.ws.dictation)));
+    wsRef.current = ws;
+
+    ws.onopen = () => {
+      ws.send(encodeMessage({
+        type: 'config',
+        configuration: { ...settings, audio: toAudioFormat(encoding) },
+      }));
+    };
+
+    ws.onmessage = (event) => {
+      const result = parseDictationServerMessage(event.data);
+      if (!result.ok) {
+        console.error('Invalid dictation message:', result.error);
+        return;
+      }
+      handleMessage(result.message, encoding);
+    };
+
+    ws.onerror = () => {
+      if (wsRef.current === ws) finish('Connection error. Make sure the backend is running.');
+    };
+
+    ws.onclose = () => {
+      if (wsRef.current === ws) finish();
+    };
+  };
+
+  // Stop the microphone; the final results arrive before 'ended'
+  const stopDictation = () => {
+    releaseCapture();
+    setStatus('ending');
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(encodeMessage({ type: 'end' }));
+    } else {
+      finish();
+    }
+  };
+
+  // Toolbar formatting applies to the selection, like any hand edit
+  const format = (apply: (text: string, start: number, end: number) => string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    setDoc(editDictation(apply(doc.text, textarea.selectionStart, textarea.selectionEnd)));
+    textarea.focus();
+  };
+
+  const isActive = status !== 'idle';
+
+  return (
+    <div>
+      {/* Control Panel */}
+      <div className={styles.controlPanel}>
+        <div className={styles.settings}>
+          <label className={styles.field}>
+            <span className={styles.label}>Language</span>
+            <select
+              value={settings.primaryLanguage}
+              onChange={(e) => setSettings(prev => ({ ...prev, primaryLanguage: e.target.value }))}
+              disabled={isActive}
+              className={styles.select}
+            >
+              {SUPPORTED_LANGUAGES.map(lang => (
+                <option key={lang.code} value={lang.code}>{lang.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={settings.spokenPunctuation}
+              onChange={(e) => setSettings(prev => ({ ...prev, spokenPunctuation: e.target.checked }))}
+              disabled={isActive}
+            />
+            Spoken punctuation
+          </label>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={settings.automaticPunctuation}
+              onChange={(e) => setSettings(prev => ({ ...prev, automaticPunctuation: e.target.checked }))}
+              disabled={isActive}
+            />
+            Automatic punctuation
+          </label>
+        </div>
+
+        <button
+          onClick={status === 'dictating' ? stopDictation : startDictation}
+          disabled={status === 'connecting' || status === 'ending'}
+          className={styles.dictateButton}
+          style={{ backgroundColor: status === 'dictating' ? colors.recording : colors.black }}
+        >
+          {status === 'connecting'
+            ? 'Connecting...'
+            : status === 'ending'
+              ? 'Finishing...'
+              : status === 'dictating'
+                ? 'Stop dictation'
+                : 'Start dictation'}
+        </button>
+
+        <div className={styles.hint}>
+          {status === 'dictating' && <span className={styles.recordingDot} />}
+          Say {COMMAND_HINTS.join(', ')}
+          {settings.spokenPunctuation && ', or punctuation such as "comma" and "full stop"'}
+        </div>
+      </div>
+
+      {error && <div className={styles.errorBanner}>{error}</div>}
+
+      {/* Editor */}
+      <div className={styles.toolbar}>
+        <button onClick={() => format((t, s, e) => wrapSelection(t, s, e, '**'))} className={styles.toolButton} title="Bold">
+          <strong>B</strong>
+        </button>
+        <button onClick={() => format((t, s, e) => wrapSelection(t, s, e, '*'))} className={styles.toolButton} title="Italic">
+          <em>I</em>
+        </button>
+        <button onClick={() => format(bulletLines)} className={styles.toolButton} title="Bullet list">
+          • List
+        </button>
+        <button
+          onClick={() => setDoc(EMPTY_DICTATION)}
+          disabled={!doc.text}
+          className={styles.toolButton}
+        >
+          Clear
+        </button>
+      </div>
+      <div className={styles.editor}>
+        <textarea
+          ref={textareaRef}
+          value={doc.text}
+          onChange={(e) => setDoc(editDictation(e.target.value))}
+          placeholder="Dictated text appears here. You can edit it at any time."
+          className={styles.markdownInput}
+        />
+        <div className={styles.livePreview}>
+          {doc.text || interimText ? (
+            <>
+              <MarkdownPreview text={doc.text} />
+              {interimText && <div className={styles.interimText}>{interimText}</div>}
+            </>
+          ) : (
+            <div className={styles.emptyState}>Preview</div>
+          )}
+        </div>
+      </div>
+
+      <DictationInsert text={doc.text} disabled={isActive} />
+    </div>
+  );
+};
+
+export default Dictation;
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { api, buildUrl } from '../constants';
+import { authFetch } from '../utils/auth';
+import type { GeneratedDocument } from './DocumentEditor';
+import type { StoredSession } from './SessionHistory';
+import styles from './DictationInsert.module.css';
+
+interface SessionOption {
+  interactionId: string;
+  startedAt: string;
+  documentCount: number;
+}
+
+interface DictationInsertProps {
+  text: string;
+  disabled?: boolean;
+}
+
+// Appends the dictated text to one section of a document generated in an
+// earlier session. The document is re-read just before saving so edits made
+// since it was listed are kept.
+const DictationInsert: React.FC<DictationInsertProps> = ({ text, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [documents, setDocuments] = useState<StoredSession['documents']>([]);
+  const [interactionId, setInteractionId] = useState('');
+  const [documentId, setDocumentId] = useState('');
+  const [sectionKey, setSectionKey] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isInserting, setIsInserting] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const selectedDocument = documents.find(d => d.id === documentId);
+
+  const open = async () => {
+    setIsOpen(true);
+    setIsLoading(true);
+    setError('');
+    try {
+      const response = await authFetch(buildUrl(api.endpoints.sessions));
+      if (!response.ok) {
+        throw new Error('Failed to load sessions');
+      }
+      const data = await response.json();
+      setSessions((data.sessions || []).filter((s: SessionOption) => s.documentCount > 0));
+    } catch (err) {
+      console.error('Dictation sessions error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectSession = async (id: string) => {
+    setInteractionId(id);
+    setDocuments([]);
+    setDocumentId('');
+    setSectionKey('');
+    if (!id) return;
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const response = await authFetch(buildUrl(`${api.endpoints.sessions}/${id}`));
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to load documents');
+      }
+      const session: StoredSession = await response.json();
+      setDocuments(session.documents);
+    } catch (err) {
+      console.error('Dictation documents error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load documents');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const insert = async () => {
+    setIsInserting(true);
+    setError('');
+    setNotice('');
+    try {
+      const documentUrl = buildUrl(`${api.endpoints.interactions}/${interactionId}/documents/${documentId}`);
+      const current = await authFetch(documentUrl);
+      if (!current.ok) {
+        const errorData = await current.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to load document');
+      }
+      const document: GeneratedDocument = await current.json();
+      const section = document.sections.find(s => s.key === sectionKey);
+      if (!section) {
+        throw new Error('The section no longer exists in this document');
+      }
+
+      const response = await authFetch(documentUrl, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sections: document.sections.map(s => ({
+            key: s.key,
+            name: s.name,
+            text: s.key === sectionKey ? [s.text?.trim(), text.trim()].filter(Boolean).join('\n\n') : s.text,
+            sort: s.sort,
+          })),
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to insert into document');
+      }
+
+      const saved: GeneratedDocument = await response.json();
+      setDocuments(prev => prev.map(d => (d.id === saved.id ? { ...d, sections: saved.sections } : d)));
+      setNotice(`Inserted into "${section.name || section.key}" of ${document.name}`);
+    } catch (err) {
+      console.error('Dictation insert error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to insert into document');
+    } finally {
+      setIsInserting(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <div className={styles.collapsed}>
+        <button onClick={open} disabled={disabled || !text.trim()} className={styles.openButton}>
+          Insert into document...
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <h4 className={styles.title}>Insert into document</h4>
+
+      {error && <div className={styles.errorBanner}>{error}</div>}
+      {notice && <div className={styles.notice}>{notice}</div>}
+
+      <div className={styles.pickers}>
+        <select
+          value={interactionId}
+          onChange={(e) => selectSession(e.target.value)}
+          disabled={isLoading || isInserting}
+          className={styles.select}
+          aria-label="Session"
+        >
+          <option value="">{sessions.length > 0 ? 'Choose a session' : 'No sessions with documents'}</option>
+          {sessions.map(s => (
+            <option key={s.interactionId} value={s.interactionId}>
+              {new Date(s.startedAt).toLocaleString()} ({s.documentCount} {s.documentCount === 1 ? 'document' : 'documents'})
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={documentId}
+          onChange={(e) => {
+            setDocumentId(e.target.value);
+            setSectionKey('');
+          }}
+          disabled={!interactionId || isLoading || isInserting}
+          className={styles.select}
+          aria-label="Document"
+        >
+          <option value="">Choose a document</option>
+          {documents.map(d => (
+            <option key={d.id} value={d.id}>{d.name}</option>
+          ))}
+        </select>
+
+        <select
+          value={sectionKey}
+          onChange={(e) => setSectionKey(e.target.value)}
+          disabled={!selectedDocument || isLoading || isInserting}
+          className={styles.select}
+          aria-label="Section"
+        >
+          <option value="">Choose a section</option>
+          {(selectedDocument?.sections || [])
+            .slice()
+            .sort((a, b) => (a.sort || 0) - (b.sort || 0))
+            .map(s => (
+              <option key={s.key} value={s.key}>{s.name || s.key}</option>
+            ))}
+        </select>
+      </div>
+
+      <div className={styles.actions}>
+        <button onClick={() => setIsOpen(false)} disabled={isInserting} className={styles.cancelButton}>
+          Close
+        </button>
+        <button
+          onClick={insert}
+          disabled={disabled || !text.trim() || !sectionKey || isInserting}
+          className={styles.insertButton}
+        >
+          {isInserting ? 'Inserting...' : 'Insert at end of section'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DictationInsert;
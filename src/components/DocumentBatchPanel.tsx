@@ -0,0 +1,404 @@
+import React, { useEffect, useEffectEvent, useRef, useState } from 'react';
+import type { GeneratedDocument } from './DocumentEditor';
+import { api, buildUrl, MAX_BATCH_DOCUMENTS, SUPPORTED_LANGUAGES } from '../constants';
+import { authFetch } from '../utils/auth';
+import styles from './DocumentBatchPanel.module.css';
+
+type BatchItemStatus = 'queued' | 'generating' | 'retrying' | 'done' | 'failed';
+
+interface BatchItem {
+  id: string;
+  templateKey: string;
+  outputLanguage: string;
+  name: string;
+  status: BatchItemStatus;
+  attempts: number;
+  documentId: string | null;
+  error: string | null;
+}
+
+interface DocumentBatch {
+  id: string;
+  createdAt: string;
+  contextType: string;
+  items: BatchItem[];
+}
+
+interface TemplateOption {
+  key: string;
+  name: string;
+  translations?: { languagesId: string; name?: string | null }[];
+}
+
+interface BatchRow {
+  templateKey: string;
+  outputLanguage: string;
+}
+
+interface DocumentBatchPanelProps {
+  interactionId: string;
+  // The context single documents are generated from, built at submit time
+  buildContext: () => unknown;
+  defaultTemplateKey: string;
+  defaultLanguage: string;
+  onOpen: (document: GeneratedDocument) => void;
+  // Called when items finish, e.g. to refresh the document history
+  onGenerated: () => void;
+  canGenerate: boolean;
+  disabled?: boolean;
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+const PENDING_STATUSES: BatchItemStatus[] = ['queued', 'generating', 'retrying'];
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  generating: 'Generating...',
+  retrying: 'Retrying...',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const languageName = (code: string) =>
+  SUPPORTED_LANGUAGES.find(lang => lang.code === code)?.name || code;
+
+const templateName = (templates: TemplateOption[] | undefined, key: string, language: string) => {
+  const template = templates?.find(t => t.key === key);
+  return template?.translations?.find(t => t.languagesId === language)?.name || template?.name || key;
+};
+
+const countDone = (batches: DocumentBatch[]) =>
+  batches.reduce((sum, batch) => sum + batch.items.filter(i => i.status === 'done').length, 0);
+
+// Generates several (template, language) documents from the current context
+// in one request. The backend runs them a few at a time; the batch is polled
+// until every item is done or failed, and failed items can be retried.
+const DocumentBatchPanel: React.FC<DocumentBatchPanelProps> = ({
+  interactionId,
+  buildContext,
+  defaultTemplateKey,
+  defaultLanguage,
+  onOpen,
+  onGenerated,
+  canGenerate,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [templatesByLanguage, setTemplatesByLanguage] = useState<Record<string, TemplateOption[]>>({});
+  const [batches, setBatches] = useState<DocumentBatch[]>([]);
+  const [pollTick, setPollTick] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const doneCountRef = useRef<number | null>(null);
+  const notifyGenerated = useEffectEvent(onGenerated);
+
+  const batchesUrl = buildUrl(`${api.endpoints.interactions}/${interactionId}/document-batches`);
+  const hasPending = batches.some(b => b.items.some(i => PENDING_STATUSES.includes(i.status)));
+  const missingLanguages = [...new Set(rows.map(r => r.outputLanguage))]
+    .filter(language => !templatesByLanguage[language])
+    .join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchBatches = async () => {
+      try {
+        const response = await authFetch(batchesUrl);
+        if (!response.ok) {
+          throw new Error('Failed to load document batches');
+        }
+        const data = await response.json();
+        if (cancelled) return;
+        const list: DocumentBatch[] = data?.batches || [];
+        setBatches(list);
+
+        // Documents finished since the last poll; the first load only sets the baseline
+        const doneCount = countDone(list);
+        if (doneCountRef.current !== null && doneCount > doneCountRef.current) {
+          notifyGenerated();
+        }
+        doneCountRef.current = doneCount;
+      } catch (err) {
+        console.error('Document batch error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load document batches');
+      }
+    };
+
+    fetchBatches();
+    return () => {
+      cancelled = true;
+    };
+  }, [batchesUrl, pollTick]);
+
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setTimeout(() => setPollTick(tick => tick + 1), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [hasPending, batches]);
+
+  useEffect(() => {
+    if (!missingLanguages) return;
+    let cancelled = false;
+
+    const fetchTemplates = async (language: string) => {
+      try {
+        const response = await authFetch(
+          buildUrl(`${api.endpoints.templates}?lang=${encodeURIComponent(language)}`)
+        );
+        if (!response.ok) {
+          throw new Error('Failed to fetch templates');
+        }
+        const data = await response.json();
+        if (!cancelled) setTemplatesByLanguage(prev => ({ ...prev, [language]: data?.data || [] }));
+      } catch (err) {
+        console.error('Template fetch error:', err);
+        if (!cancelled) setTemplatesByLanguage(prev => ({ ...prev, [language]: [] }));
+      }
+    };
+
+    missingLanguages.split(',').forEach(fetchTemplates);
+    return () => {
+      cancelled = true;
+    };
+  }, [missingLanguages]);
+
+  const addRow = () => {
+    setRows(prev => [...prev, { templateKey: defaultTemplateKey, outputLanguage: defaultLanguage }]);
+  };
+
+  const updateRow = (index: number, patch: Partial<BatchRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    setRows(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const open = () => {
+    setIsOpen(true);
+    if (rows.length === 0) addRow();
+  };
+
+  const pairs = rows.map(r => `${r.templateKey}|${r.outputLanguage}`);
+  const hasDuplicates = new Set(pairs).size !== pairs.length;
+  // Languages whose templates have loaded but don't offer the row's template
+  const hasUnavailable = rows.some(r =>
+    templatesByLanguage[r.outputLanguage]?.length &&
+    !templatesByLanguage[r.outputLanguage].some(t => t.key === r.templateKey)
+  );
+  const canSubmit = canGenerate && !disabled && !isSubmitting && rows.length > 0 && !hasDuplicates && !hasUnavailable;
+
+  const submit = async () => {
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const createdAt = new Date().toLocaleString();
+      const response = await authFetch(batchesUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          context: [buildContext()],
+          items: rows.map(row => ({
+            ...row,
+            name: `${templateName(templatesByLanguage[row.outputLanguage], row.templateKey, row.outputLanguage)} (${languageName(row.outputLanguage)}) - ${createdAt}`,
+          })),
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to start document batch');
+      }
+      const batch: DocumentBatch = await response.json();
+      setBatches(prev => [batch, ...prev]);
+    } catch (err) {
+      console.error('Document batch error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start document batch');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const retryItem = async (batchId: string, itemId: string) => {
+    setBusyItemId(itemId);
+    setError('');
+    try {
+      const response = await authFetch(`${batchesUrl}/${batchId}/items/${itemId}/retry`, { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to retry document');
+      }
+      const batch: DocumentBatch = await response.json();
+      setBatches(prev => prev.map(b => (b.id === batch.id ? batch : b)));
+    } catch (err) {
+      console.error('Batch retry error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to retry document');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const openItem = async (item: BatchItem) => {
+    setBusyItemId(item.id);
+    setError('');
+    try {
+      const response = await authFetch(
+        buildUrl(`${api.endpoints.interactions}/${interactionId}/documents/${item.documentId}`)
+      );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to open document');
+      }
+      onOpen(await response.json());
+    } catch (err) {
+      console.error('Batch document open error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open document');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  if (!isOpen && batches.length === 0) {
+    return (
+      <div className={styles.collapsed}>
+        <button onClick={open} disabled={disabled} className={styles.secondaryButton}>
+          Generate several documents...
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <h4 className={styles.title}>Batch generation</h4>
+        {!isOpen && (
+          <button onClick={open} disabled={disabled} className={styles.secondaryButton}>
+            New batch...
+          </button>
+        )}
+      </div>
+
+      {error && <div className={styles.errorBanner}>{error}</div>}
+
+      {isOpen && (
+        <div className={styles.form}>
+          {rows.map((row, index) => {
+            const templates = templatesByLanguage[row.outputLanguage];
+            const isOffered = !templates?.length || templates.some(t => t.key === row.templateKey);
+            return (
+              <div key={index} className={styles.row}>
+                <select
+                  value={row.outputLanguage}
+                  onChange={(e) => updateRow(index, { outputLanguage: e.target.value })}
+                  disabled={isSubmitting}
+                  className={styles.select}
+                  aria-label="Output language"
+                >
+                  {SUPPORTED_LANGUAGES.map(lang => (
+                    <option key={lang.code} value={lang.code}>{lang.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={isOffered ? row.templateKey : ''}
+                  onChange={(e) => updateRow(index, { templateKey: e.target.value })}
+                  disabled={isSubmitting || !templates}
+                  className={styles.select}
+                  aria-label="Template"
+                >
+                  {!templates && <option value={row.templateKey}>Loading templates...</option>}
+                  {templates?.length === 0 && <option value={row.templateKey}>{row.templateKey}</option>}
+                  {!isOffered && <option value="">Choose a template</option>}
+                  {templates?.map(template => (
+                    <option key={template.key} value={template.key}>
+                      {templateName(templates, template.key, row.outputLanguage)}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => removeRow(index)}
+                  disabled={isSubmitting}
+                  className={styles.removeButton}
+                  aria-label="Remove document"
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+
+          {hasDuplicates && (
+            <p className={styles.hint}>Each template can only be added once per language.</p>
+          )}
+
+          <div className={styles.actions}>
+            <button
+              onClick={addRow}
+              disabled={isSubmitting || rows.length >= MAX_BATCH_DOCUMENTS}
+              className={styles.secondaryButton}
+            >
+              Add document
+            </button>
+            <button onClick={() => setIsOpen(false)} disabled={isSubmitting} className={styles.secondaryButton}>
+              Close
+            </button>
+            <button onClick={submit} disabled={!canSubmit} className={styles.primaryButton}>
+              {isSubmitting
+                ? 'Starting...'
+                : `Generate ${rows.length} ${rows.length === 1 ? 'document' : 'documents'}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {batches.map(batch => (
+        <div key={batch.id} className={styles.batch}>
+          <div className={styles.batchMeta}>
+            {new Date(batch.createdAt).toLocaleString()} • {batch.items.filter(i => i.status === 'done').length} of {batch.items.length} done
+          </div>
+          <table className={styles.table}>
+            <tbody>
+              {batch.items.map(item => (
+                <tr key={item.id}>
+                  <td>{templateName(templatesByLanguage[item.outputLanguage], item.templateKey, item.outputLanguage)}</td>
+                  <td>{languageName(item.outputLanguage)}</td>
+                  <td>
+                    <span className={`${styles.status} ${styles[item.status]}`}>
+                      {STATUS_LABELS[item.status]}
+                    </span>
+                    {item.error && <div className={styles.itemError}>{item.error}</div>}
+                  </td>
+                  <td className={styles.rowActions}>
+                    {item.status === 'done' && item.documentId && (
+                      <button
+                        onClick={() => openItem(item)}
+                        disabled={busyItemId === item.id}
+                        className={styles.secondaryButton}
+                      >
+                        View
+                      </button>
+                    )}
+                    {item.status === 'failed' && (
+                      <button
+                        onClick={() => retryItem(batch.id, item.id)}
+                        disabled={disabled || busyItemId === item.id}
+                        className={styles.secondaryButton}
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DocumentBatchPanel;
@@ -0,0 +1,101 @@
+import React from 'react';
+import type { DocumentSection, GeneratedDocument } from './DocumentEditor';
+import { diffWords, type DiffPart } from '../utils/diff';
+import styles from './DocumentCompare.module.css';
+
+interface DocumentCompareProps {
+  left: GeneratedDocument;
+  right: GeneratedDocument;
+  onClose: () => void;
+}
+
+interface AlignedSection {
+  key: string;
+  name: string;
+  left?: DocumentSection;
+  right?: DocumentSection;
+}
+
+// Pair sections by key, in the left document's order followed by any
+// sections only the right document has
+const alignSections = (left: GeneratedDocument, right: GeneratedDocument): AlignedSection[] => {
+  const bySort = (a: DocumentSection, b: DocumentSection) => (a.sort || 0) - (b.sort || 0);
+  const leftSections = (left.sections || []).slice().sort(bySort);
+  const rightSections = (right.sections || []).slice().sort(bySort);
+  const rightByKey = new Map(rightSections.map(s => [s.key, s]));
+
+  const aligned: AlignedSection[] = leftSections.map(section => ({
+    key: section.key,
+    name: section.name || section.key,
+    left: section,
+    right: rightByKey.get(section.key),
+  }));
+  const leftKeys = new Set(leftSections.map(s => s.key));
+  rightSections
+    .filter(section => !leftKeys.has(section.key))
+    .forEach(section => aligned.push({ key: section.key, name: section.name || section.key, right: section }));
+
+  return aligned;
+};
+
+const DocumentCompare: React.FC<DocumentCompareProps> = ({ left, right, onClose }) => {
+  const sections = alignSections(left, right);
+  const changedCount = sections.filter(s => (s.left?.text || '') !== (s.right?.text || '')).length;
+
+  const renderSide = (section: DocumentSection | undefined, parts: DiffPart[] | null, side: 'left' | 'right') => {
+    if (!section) {
+      return <div className={styles.missing}>Section not in this document</div>;
+    }
+    if (!parts) {
+      return <div className={styles.sectionText}>{section.text || <span className={styles.missing}>No content</span>}</div>;
+    }
+    // Each side shows the shared text plus only its own changes
+    const hidden: DiffPart['type'] = side === 'left' ? 'added' : 'removed';
+    return (
+      <div className={styles.sectionText}>
+        {parts
+          .filter(part => part.type !== hidden)
+          .map((part, idx) => (
+            <span key={idx} className={part.type === 'equal' ? undefined : styles[part.type]}>
+              {part.text}
+            </span>
+          ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <span className={styles.summary}>
+          {changedCount} of {sections.length} {sections.length === 1 ? 'section differs' : 'sections differ'}
+        </span>
+        <button onClick={onClose} className={styles.closeButton}>Close comparison</button>
+      </div>
+
+      <div className={styles.grid}>
+        <div className={styles.columnTitle}>{left.name || 'Untitled document'}</div>
+        <div className={styles.columnTitle}>{right.name || 'Untitled document'}</div>
+
+        {sections.map(section => {
+          const isSame = (section.left?.text || '') === (section.right?.text || '');
+          const parts = section.left && section.right && !isSame
+            ? diffWords(section.left.text || '', section.right.text || '')
+            : null;
+          return (
+            <React.Fragment key={section.key}>
+              <div className={styles.sectionName} data-changed={!isSame}>
+                {section.name}
+                {!isSame && <span className={styles.changedBadge}>differs</span>}
+              </div>
+              <div className={styles.cell}>{renderSide(section.left, parts, 'left')}</div>
+              <div className={styles.cell}>{renderSide(section.right, parts, 'right')}</div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentCompare;
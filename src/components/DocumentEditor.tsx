@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import MarkdownPreview from './MarkdownPreview';
+import { diffWords } from '../utils/diff';
+import { api, buildUrl } from '../constants';
+import { authFetch } from '../utils/auth';
+import styles from './DocumentEditor.module.css';
+
+export interface DocumentSection {
+  key: string;
+  name: string;
+  text: string;
+  sort: number;
+}
+
+export interface GeneratedDocument {
+  id: string;
+  name: string;
+  templateKey: string;
+  // Template reference and language as returned by the documents API
+  templateRef?: string;
+  outputLanguage?: string;
+  sections: DocumentSection[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+interface DocumentEditorProps {
+  interactionId: string;
+  document: GeneratedDocument;
+  // Called with the document returned by the update route after a save
+  onSaved: (document: GeneratedDocument) => void;
+  // Generates fresh text for one section from the current context
+  onRegenerateSection: (section: DocumentSection) => Promise<string>;
+  disabled?: boolean;
+}
+
+type SectionView = 'preview' | 'edit' | 'diff';
+
+const textsByKey = (sections: DocumentSection[]) =>
+  Object.fromEntries(sections.map(s => [s.key, s.text || '']));
+
+const DocumentEditor: React.FC<DocumentEditorProps> = ({
+  interactionId,
+  document,
+  onSaved,
+  onRegenerateSection,
+  disabled = false,
+}) => {
+  // The AI version of each section: as generated, or as last regenerated
+  const [aiTexts, setAiTexts] = useState<Record<string, string>>(() => textsByKey(document.sections || []));
+  const [drafts, setDrafts] = useState<Record<string, string>>(() => textsByKey(document.sections || []));
+  const [views, setViews] = useState<Record<string, SectionView>>({});
+  const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const sections = (document.sections || []).slice().sort((a, b) => (a.sort || 0) - (b.sort || 0));
+  const savedTexts = textsByKey(sections);
+  const dirtyKeys = sections.filter(s => drafts[s.key] !== savedTexts[s.key]).map(s => s.key);
+  const isBusy = disabled || isSaving || regeneratingKey !== null;
+
+  const setView = (key: string, view: SectionView) => {
+    setViews(prev => ({ ...prev, [key]: prev[key] === view ? 'preview' : view }));
+  };
+
+  const regenerate = async (section: DocumentSection) => {
+    setRegeneratingKey(section.key);
+    setError('');
+    try {
+      const text = await onRegenerateSection(section);
+      setAiTexts(prev => ({ ...prev, [section.key]: text }));
+      setDrafts(prev => ({ ...prev, [section.key]: text }));
+    } catch (err) {
+      console.error('Section regeneration error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to regenerate section');
+    } finally {
+      setRegeneratingKey(null);
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await authFetch(
+        buildUrl(`${api.endpoints.interactions}/${interactionId}/documents/${document.id}`),
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            sections: sections.map(s => ({ key: s.key, name: s.name, text: drafts[s.key] ?? s.text, sort: s.sort })),
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to save document');
+      }
+
+      onSaved(await response.json());
+    } catch (err) {
+      console.error('Document save error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save document');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const discardChanges = () => {
+    setDrafts(prev => ({ ...prev, ...savedTexts }));
+  };
+
+  if (sections.length === 0) {
+    return <div className={styles.emptyDocument}>No sections in document</div>;
+  }
+
+  return (
+    <div>
+      {error && <div className={styles.errorBanner}>{error}</div>}
+
+      <div className={styles.sectionsContainer}>
+        {sections.map(section => {
+          const view = views[section.key] || 'preview';
+          const draft = drafts[section.key] ?? '';
+          const aiText = aiTexts[section.key] ?? '';
+          const isEdited = draft !== aiText;
+          const isRegenerating = regeneratingKey === section.key;
+
+          return (
+            <div key={section.key}>
+              <div className={styles.sectionHeader}>
+                <h5 className={styles.sectionTitle}>
+                  {section.name || section.key}
+                  {isEdited && <span className={styles.editedBadge}>edited</span>}
+                </h5>
+                <div className={styles.sectionActions}>
+                  <button
+                    onClick={() => setView(section.key, 'edit')}
+                    disabled={isBusy}
+                    className={view === 'edit' ? styles.actionActive : styles.actionButton}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => setView(section.key, 'diff')}
+                    disabled={isBusy || !isEdited}
+                    className={view === 'diff' ? styles.actionActive : styles.actionButton}
+                    title="Compare the AI version with your edits"
+                  >
+                    Compare
+                  </button>
+                  <button
+                    onClick={() => regenerate(section)}
+                    disabled={isBusy}
+                    className={styles.actionButton}
+                  >
+                    {isRegenerating ? 'Regenerating...' : 'Regenerate'}
+                  </button>
+                </div>
+              </div>
+
+              {view === 'edit' ? (
+                <div className={styles.editor}>
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [section.key]: e.target.value }))}
+                    disabled={isBusy}
+                    className={styles.markdownInput}
+                    rows={Math.min(16, Math.max(4, draft.split('\n').length + 1))}
+                  />
+                  <div className={styles.livePreview}>
+                    <MarkdownPreview text={draft} />
+                  </div>
+                </div>
+              ) : view === 'diff' && isEdited ? (
+                <div className={styles.diff}>
+                  {diffWords(aiText, draft).map((part, idx) => (
+                    <span
+                      key={idx}
+                      className={part.type === 'added' ? styles.added : part.type === 'removed' ? styles.removed : undefined}
+                    >
+                      {part.text}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <MarkdownPreview text={draft} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {dirtyKeys.length > 0 && (
+        <div className={styles.saveBar}>
+          <span className={styles.saveSummary}>
+            {dirtyKeys.length} unsaved {dirtyKeys.length === 1 ? 'section' : 'sections'}
+          </span>
+          <div className={styles.sectionActions}>
+            <button onClick={discardChanges} disabled={isBusy} className={styles.actionButton}>
+              Discard changes
+            </button>
+            <button onClick={save} disabled={isBusy} className={styles.saveButton}>
+              {isSaving ? 'Saving...' : 'Save document'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentEditor;
@@ -1,5 +1,21 @@
-import React, { useState } from 'react';
-import { colors, buildUrl, DEFAULT_TEMPLATE, SUPPORTED_LANGUAGES } from '../constants';
+import React, { useState, useEffect } from 'react';
+import TranscriptContextEditor from './TranscriptContextEditor';
+import DocumentEditor, { type DocumentSection, type GeneratedDocument } from './DocumentEditor';
+import DocumentHistory from './DocumentHistory';
+import DocumentBatchPanel from './DocumentBatchPanel';
+import { getSpeakerLabel, groupIntoTurns, hasSpeakerAttribution } from '../utils/transcript';
+import {
+  colors,
+  api,
+  buildUrl,
+  factGroups,
+  DEFAULT_TEMPLATE,
+  EXPORT_FORMATS,
+  STORAGE_KEYS,
+  SUPPORTED_LANGUAGES,
+  type ExportFormat,
+} from '../constants';
+import { authFetch, getAuthSession } from '../utils/auth';
 import styles from './DocumentGeneration.module.css';
 
 interface Fact {
@@ -9,46 +25,207 @@ interface Fact {
   source?: string;
 }
 
-interface DocumentSection {
+interface TranscriptSegment {
+  id: string;
+  text: string;
+  isFinal: boolean;
+  speaker?: string;
+  start?: number;
+  end?: number;
+}
+
+interface TemplateTranslation {
+  languagesId: string;
+  name?: string | null;
+  description?: string | null;
+}
+
+interface TemplateSummary {
   key: string;
   name: string;
-  text: string;
+  description?: string;
+  translations?: TemplateTranslation[];
+}
+
+interface TemplateSectionEntry {
   sort: number;
+  sectionsId: {
+    key: string;
+    name: string;
+    description?: string;
+    translations?: TemplateTranslation[];
+  };
 }
 
-interface GeneratedDocument {
-  id: string;
-  name: string;
-  templateKey: string;
-  sections: DocumentSection[];
-  createdAt?: string;
-  updatedAt?: string;
+interface TemplateDetail extends TemplateSummary {
+  templateSections?: TemplateSectionEntry[];
 }
 
 interface DocumentGenerationProps {
   interactionId: string | null;
   facts: Fact[];
+  segments: TranscriptSegment[];
+  speakerLabels: Record<string, string>;
+  // Shown until a new document is generated, e.g. when reopening a past session
+  initialDocument?: GeneratedDocument | null;
   disabled?: boolean;
 }
 
-const stripMarkdown = (text: string): string => {
-  return text
-    .replace(/\*\*(.*?)\*\*/g, '$1')
-    .replace(/\*(.*?)\*/g, '$1')
-    .replace(/__(.*?)__/g, '$1')
-    .replace(/_(.*?)_/g, '$1');
+type ContextSource = 'facts' | 'transcript' | 'both';
+
+const CONTEXT_SOURCES: { value: ContextSource; label: string }[] = [
+  { value: 'facts', label: 'Extracted Facts' },
+  { value: 'transcript', label: 'Transcript' },
+  { value: 'both', label: 'Facts + Transcript' },
+];
+
+const localizedName = (
+  item: { name: string; translations?: TemplateTranslation[] },
+  language: string
+): string => item.translations?.find(t => t.languagesId === language)?.name || item.name;
+
+// The signed-in user's storage key for the last template, or null when signed out
+const lastTemplateStorageKey = (): string | null => {
+  const userId = getAuthSession()?.user.id;
+  return userId ? STORAGE_KEYS.lastTemplate(userId) : null;
+};
+
+const loadLastTemplateKey = (): string => {
+  const storageKey = lastTemplateStorageKey();
+  if (!storageKey) return DEFAULT_TEMPLATE.key;
+  try {
+    return localStorage.getItem(storageKey) || DEFAULT_TEMPLATE.key;
+  } catch {
+    return DEFAULT_TEMPLATE.key;
+  }
 };
 
 const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
   interactionId,
   facts,
+  segments,
+  speakerLabels,
+  initialDocument = null,
   disabled = false
 }) => {
   const [selectedLanguage, setSelectedLanguage] = useState('en');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [document, setDocument] = useState<GeneratedDocument | null>(null);
+  const [document, setDocument] = useState<GeneratedDocument | null>(initialDocument);
   const [viewMode, setViewMode] = useState<'formatted' | 'json'>('formatted');
   const [error, setError] = useState('');
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [isLoadingTemplates, setIsLoadingTemplates] = useState(true);
+  const [selectedTemplateKey, setSelectedTemplateKey] = useState(loadLastTemplateKey);
+  const [templateDetails, setTemplateDetails] = useState<Record<string, TemplateDetail>>({});
+  const [source, setSource] = useState<ContextSource>('facts');
+  const [excludedSegments, setExcludedSegments] = useState<Record<string, boolean>>({});
+  const [segmentEdits, setSegmentEdits] = useState<Record<string, string>>({});
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+
+  const finalSegments = segments.filter(s => s.isFinal);
+  const includedSegments = finalSegments
+    .filter(s => !excludedSegments[s.id])
+    .map(s => ({ ...s, text: (segmentEdits[s.id] ?? s.text).trim() }))
+    .filter(s => s.text);
+  // One line per speaker turn, prefixed with the speaker's role label when known
+  const showSpeakers = hasSpeakerAttribution(finalSegments, speakerLabels);
+  const transcriptText = groupIntoTurns(includedSegments)
+    .map(turn => {
+      const text = turn.segments.map(s => s.text).join(' ');
+      return showSpeakers ? `${getSpeakerLabel(turn.speaker, speakerLabels)}: ${text}` : text;
+    })
+    .join('\n');
+  const usesFacts = source !== 'transcript';
+  const usesTranscript = source !== 'facts';
+  const hasSourceContent =
+    (usesFacts && facts.length > 0) || (usesTranscript && transcriptText.length > 0);
+
+  // Fall back to the default (or first available) template when the remembered
+  // one isn't offered in the chosen output language
+  const activeTemplate =
+    templates.find(t => t.key === selectedTemplateKey) ||
+    templates.find(t => t.key === DEFAULT_TEMPLATE.key) ||
+    templates[0] ||
+    null;
+  const activeTemplateKey = activeTemplate?.key || DEFAULT_TEMPLATE.key;
+  const activeTemplateName = activeTemplate
+    ? localizedName(activeTemplate, selectedLanguage)
+    : DEFAULT_TEMPLATE.name;
+  const activeTemplateDetail = templateDetails[activeTemplateKey];
+
+  useEffect(() => {
+    let cancelled = false;
+    // Hide the previous language's list until this one arrives
+    setIsLoadingTemplates(true);
+
+    const fetchTemplates = async () => {
+      try {
+        const response = await authFetch(
+          buildUrl(`${api.endpoints.templates}?lang=${encodeURIComponent(selectedLanguage)}`)
+        );
+        if (!response.ok) {
+          throw new Error('Failed to fetch templates');
+        }
+        const data = await response.json();
+        if (!cancelled) setTemplates(data?.data || []);
+      } catch (err) {
+        console.error('Template fetch error:', err);
+        if (!cancelled) setTemplates([]);
+      } finally {
+        if (!cancelled) setIsLoadingTemplates(false);
+      }
+    };
+
+    fetchTemplates();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedLanguage]);
+
+  useEffect(() => {
+    if (!activeTemplate || templateDetails[activeTemplate.key]) return;
+    let cancelled = false;
+
+    const fetchTemplateDetail = async () => {
+      try {
+        const response = await authFetch(
+          buildUrl(`${api.endpoints.templates}/${encodeURIComponent(activeTemplate.key)}`)
+        );
+        if (!response.ok) {
+          throw new Error('Failed to fetch template');
+        }
+        const detail: TemplateDetail = await response.json();
+        if (!cancelled) {
+          setTemplateDetails(prev => ({ ...prev, [activeTemplate.key]: detail }));
+        }
+      } catch (err) {
+        console.error('Template detail fetch error:', err);
+      }
+    };
+
+    fetchTemplateDetail();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTemplate, templateDetails]);
+
+  const selectTemplate = (key: string) => {
+    setSelectedTemplateKey(key);
+    const storageKey = lastTemplateStorageKey();
+    if (!storageKey) return;
+    try {
+      localStorage.setItem(storageKey, key);
+    } catch {
+      // Storage unavailable (private mode); the choice just won't persist
+    }
+  };
+
+  const previewSections = (activeTemplateDetail?.templateSections || [])
+    .slice()
+    .sort((a, b) => a.sort - b.sort)
+    .map(entry => entry.sectionsId);
 
   const generateDocument = async () => {
     if (!interactionId) {
@@ -56,8 +233,10 @@ const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
       return;
     }
 
-    if (facts.length === 0) {
-      setError('No facts available. Please record some audio first.');
+    if (!hasSourceContent) {
+      setError(source === 'facts'
+        ? 'No facts available. Please record some audio first.'
+        : 'No transcript available. Please record some audio or include at least one segment.');
       return;
     }
 
@@ -66,25 +245,18 @@ const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
     setDocument(null);
 
     try {
-      const context = [{
-        type: 'facts',
-        data: facts.map(f => ({
-          text: f.text,
-          group: f.group || 'other',
-          source: f.source || 'core'
-        }))
-      }];
+      const context = [buildContext()];
 
-      const response = await fetch(
+      const response = await authFetch(
         buildUrl(`/api/interactions/${interactionId}/documents`),
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             context,
-            templateKey: DEFAULT_TEMPLATE.key,
+            templateKey: activeTemplateKey,
             outputLanguage: selectedLanguage,
-            name: `SOAP Note - ${new Date().toLocaleString()}`
+            name: `${activeTemplateName} - ${new Date().toLocaleString()}`
           })
         }
       );
@@ -97,6 +269,7 @@ const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
       const doc = await response.json();
       setDocument(doc);
       setViewMode('formatted');
+      setHistoryRefreshKey(key => key + 1);
     } catch (err) {
       console.error('Document generation error:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate document');
@@ -105,20 +278,122 @@ const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
     }
   };
 
-  const downloadJson = () => {
-    if (!document) return;
-    const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+  // The documents API accepts a single context entry, so "both" is sent as one
+  // string context combining the fact list and the transcript
+  const buildContext = () => {
+    if (source === 'facts') {
+      return {
+        type: 'facts',
+        data: facts.map(f => ({
+          text: f.text,
+          group: f.group || 'other',
+          source: f.source || 'core'
+        }))
+      };
+    }
+
+    if (source === 'transcript' || facts.length === 0) {
+      return { type: 'transcript', data: { text: transcriptText } };
+    }
+
+    const factLines = facts.map(f => {
+      const label = factGroups[f.group]?.label || f.group || 'Other';
+      return `- [${label}] ${f.text}`;
+    });
+    const parts = [`Clinical facts:\n${factLines.join('\n')}`];
+    if (transcriptText) {
+      parts.push(`Transcript:\n${transcriptText}`);
+    }
+    return { type: 'string', data: parts.join('\n\n') };
+  };
+
+  // Regenerate one section of the current document from the selected source
+  const regenerateSection = async (section: DocumentSection): Promise<string> => {
+    if (!hasSourceContent) {
+      throw new Error('No source content available to regenerate from.');
+    }
+
+    const response = await authFetch(
+      buildUrl(`${api.endpoints.interactions}/${interactionId}/sections/${encodeURIComponent(section.key)}/generate`),
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          context: [buildContext()],
+          outputLanguage: selectedLanguage
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.details || errorData.error || 'Failed to regenerate section');
+    }
+
+    const data = await response.json();
+    return data.text || '';
+  };
+
+  const toggleSegment = (id: string) => {
+    setExcludedSegments(prev => ({ ...prev, [id]: !prev[id] }));
+  };
+
+  const editSegment = (id: string, text: string) => {
+    setSegmentEdits(prev => ({ ...prev, [id]: text }));
+  };
+
+  const resetSegmentChanges = () => {
+    setExcludedSegments({});
+    setSegmentEdits({});
+  };
+
+  const saveBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = window.document.createElement('a');
     a.href = url;
-    a.download = `document-${document.id || 'export'}.json`;
+    a.download = filename;
     window.document.body.appendChild(a);
     a.click();
     window.document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const canGenerate = interactionId && !disabled && !isGenerating && facts.length > 0;
+  // Exports the saved document; unsaved edits in the editor are not included
+  const exportDocument = async (format: ExportFormat) => {
+    if (!document) return;
+    const { extension } = EXPORT_FORMATS.find(f => f.value === format)!;
+    const filename = `document-${document.id || 'export'}.${extension}`;
+
+    if (format === 'json') {
+      saveBlob(new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' }), filename);
+      return;
+    }
+
+    setExportingFormat(format);
+    setError('');
+    try {
+      const response = await authFetch(
+        buildUrl(`${api.endpoints.interactions}/${interactionId}/documents/${document.id}/export?format=${format}`)
+      );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to export document');
+      }
+      saveBlob(await response.blob(), filename);
+    } catch (err) {
+      console.error('Document export error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export document');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const canGenerate = interactionId && !disabled && !isGenerating && !isLoadingTemplates && hasSourceContent;
+
+  const sourceSummary = [
+    usesFacts && `${facts.length} ${facts.length === 1 ? 'fact' : 'facts'}`,
+    usesTranscript && `${finalSegments.length} ${finalSegments.length === 1 ? 'segment' : 'segments'}`,
+  ].filter(Boolean).join(' • ');
 
   return (
     <div className={styles.container}>
@@ -127,12 +402,27 @@ const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
       {/* Controls */}
       <div className={styles.controls}>
         <div className={styles.controlsGrid}>
-          {/* Template Display */}
+          {/* Template Selection */}
           <div>
             <label className={styles.label}>Template</label>
-            <div className={styles.staticField}>
-              {DEFAULT_TEMPLATE.name}
-            </div>
+            {isLoadingTemplates || templates.length === 0 ? (
+              <div className={styles.staticField}>
+                {isLoadingTemplates ? 'Loading templates...' : DEFAULT_TEMPLATE.name}
+              </div>
+            ) : (
+              <select
+                value={activeTemplateKey}
+                onChange={(e) => selectTemplate(e.target.value)}
+                disabled={disabled || isGenerating}
+                className={styles.select}
+              >
+                {templates.map(template => (
+                  <option key={template.key} value={template.key}>
+                    {localizedName(template, selectedLanguage)}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
 
           {/* Language Selection */}
@@ -150,11 +440,24 @@ const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
             </select>
           </div>
 
+          {/* Source Selection */}
+          <div>
+            <label className={styles.label}>Source ({sourceSummary})</label>
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value as ContextSource)}
+              disabled={disabled || isGenerating}
+              className={styles.select}
+            >
+              {CONTEXT_SOURCES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
           {/* Generate Button */}
           <div>
-            <label className={styles.label}>
-              Source: Extracted Facts ({facts.length} {facts.length === 1 ? 'item' : 'items'})
-            </label>
+            <label className={styles.label}>&nbsp;</label>
             <button
               onClick={generateDocument}
               disabled={!canGenerate}
@@ -182,6 +485,54 @@ const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
           </div>
         </div>
 
+        {/* Template Preview */}
+        {activeTemplate && (
+          <div className={styles.templatePreview}>
+            {activeTemplate.description && (
+              <p className={styles.templateDescription}>{activeTemplate.description}</p>
+            )}
+            <div className={styles.sectionChips}>
+              {activeTemplateDetail ? (
+                previewSections.length > 0 ? (
+                  previewSections.map(section => (
+                    <span
+                      key={section.key}
+                      className={styles.sectionChip}
+                      title={section.description}
+                    >
+                      {localizedName(section, selectedLanguage)}
+                    </span>
+                  ))
+                ) : (
+                  <span className={styles.noContent}>No sections defined</span>
+                )
+              ) : (
+                <span className={styles.noContent}>Loading sections...</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Transcript Context */}
+        {usesTranscript && interactionId && (
+          <TranscriptContextEditor
+            segments={finalSegments}
+            speakerLabels={showSpeakers ? speakerLabels : null}
+            excluded={excludedSegments}
+            edits={segmentEdits}
+            onToggle={toggleSegment}
+            onEdit={editSegment}
+            onResetEdits={resetSegmentChanges}
+            disabled={disabled || isGenerating}
+          />
+        )}
+
+        {!isLoadingTemplates && templates.length === 0 && (
+          <p className={styles.helperText}>
+            Could not load templates for this language. The default {DEFAULT_TEMPLATE.name} will be used.
+          </p>
+        )}
+
         {!interactionId && (
           <p className={styles.helperText}>
             Complete a recording session to enable document generation.
@@ -204,7 +555,7 @@ const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
                 {document.name || 'Generated Document'}
               </h4>
               <span className={styles.documentMeta}>
-                Template: {document.templateKey} • {document.sections?.length || 0} sections
+                Template: {document.templateRef || document.templateKey} • {document.sections?.length || 0} sections
               </span>
             </div>
             <div className={styles.documentActions}>
@@ -224,42 +575,57 @@ const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
                   JSON
                 </button>
               </div>
-              {/* Download Button */}
-              <button onClick={downloadJson} className={styles.downloadButton}>
-                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
-                  <polyline points="7 10 12 15 17 10" />
-                  <line x1="12" y1="15" x2="12" y2="3" />
-                </svg>
-                Download
-              </button>
+              {/* Export Menu */}
+              <div className={styles.exportMenu}>
+                <button
+                  onClick={() => setIsExportMenuOpen(open => !open)}
+                  disabled={exportingFormat !== null}
+                  className={styles.downloadButton}
+                  aria-haspopup="menu"
+                  aria-expanded={isExportMenuOpen}
+                >
+                  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                    <polyline points="7 10 12 15 17 10" />
+                    <line x1="12" y1="15" x2="12" y2="3" />
+                  </svg>
+                  {exportingFormat ? 'Exporting...' : 'Export'}
+                </button>
+                {isExportMenuOpen && (
+                  <div className={styles.exportOptions} role="menu">
+                    {EXPORT_FORMATS.map(format => (
+                      <button
+                        key={format.value}
+                        role="menuitem"
+                        onClick={() => {
+                          setIsExportMenuOpen(false);
+                          exportDocument(format.value);
+                        }}
+                        className={styles.exportOption}
+                      >
+                        {format.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
           </div>
 
           {/* Document Content */}
           <div className={styles.documentContent}>
-            {viewMode === 'formatted' ? (
-              <div className={styles.sectionsContainer}>
-                {(document.sections || [])
-                  .sort((a, b) => (a.sort || 0) - (b.sort || 0))
-                  .map((section, idx) => (
-                    <div key={section.key || idx}>
-                      <h5 className={styles.sectionTitle}>
-                        {section.name || section.key}
-                      </h5>
-                      <div className={styles.sectionText}>
-                        {section.text ? stripMarkdown(section.text) : (
-                          <span className={styles.noContent}>No content</span>
-                        )}
-                      </div>
-                    </div>
-                  ))}
-                {(!document.sections || document.sections.length === 0) && (
-                  <div className={styles.emptyDocument}>
-                    No sections in document
-                  </div>
-                )}
-              </div>
+            {viewMode === 'formatted' && interactionId ? (
+              <DocumentEditor
+                key={document.id}
+                interactionId={interactionId}
+                document={document}
+                onSaved={saved => {
+                  setDocument(saved);
+                  setHistoryRefreshKey(key => key + 1);
+                }}
+                onRegenerateSection={regenerateSection}
+                disabled={disabled || isGenerating}
+              />
             ) : (
               <pre className={styles.jsonView}>
                 {JSON.stringify(document, null, 2)}
@@ -268,6 +634,38 @@ const DocumentGeneration: React.FC<DocumentGenerationProps> = ({
           </div>
         </div>
       )}
+
+      {interactionId && (
+        <DocumentBatchPanel
+          interactionId={interactionId}
+          buildContext={buildContext}
+          defaultTemplateKey={activeTemplateKey}
+          defaultLanguage={selectedLanguage}
+          onOpen={doc => {
+            setDocument(doc);
+            setViewMode('formatted');
+          }}
+          onGenerated={() => setHistoryRefreshKey(key => key + 1)}
+          canGenerate={hasSourceContent}
+          disabled={disabled || isGenerating}
+        />
+      )}
+
+      {interactionId && (
+        <DocumentHistory
+          interactionId={interactionId}
+          activeDocumentId={document?.id || null}
+          onOpen={doc => {
+            setDocument(doc);
+            setViewMode('formatted');
+          }}
+          onDeleted={documentId => {
+            if (document?.id === documentId) setDocument(null);
+          }}
+          refreshKey={historyRefreshKey}
+          disabled={disabled || isGenerating}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import DocumentCompare from './DocumentCompare';
+import type { GeneratedDocument } from './DocumentEditor';
+import { api, buildUrl, SUPPORTED_LANGUAGES } from '../constants';
+import { authFetch } from '../utils/auth';
+import styles from './DocumentHistory.module.css';
+
+interface DocumentHistoryProps {
+  interactionId: string;
+  activeDocumentId: string | null;
+  onOpen: (document: GeneratedDocument) => void;
+  onDeleted: (documentId: string) => void;
+  // Bump to re-fetch the list, e.g. after a document is generated or saved
+  refreshKey: number;
+  disabled?: boolean;
+}
+
+// Documents can be compared pairwise
+const MAX_COMPARE = 2;
+
+const languageName = (code?: string) =>
+  SUPPORTED_LANGUAGES.find(lang => lang.code === code)?.name || code || '—';
+
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleString() : '—');
+
+const DocumentHistory: React.FC<DocumentHistoryProps> = ({
+  interactionId,
+  activeDocumentId,
+  onOpen,
+  onDeleted,
+  refreshKey,
+  disabled = false,
+}) => {
+  const [documents, setDocuments] = useState<GeneratedDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<[GeneratedDocument, GeneratedDocument] | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState('');
+
+  const documentsUrl = buildUrl(`${api.endpoints.interactions}/${interactionId}/documents`);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDocuments = async () => {
+      try {
+        const response = await authFetch(documentsUrl);
+        if (!response.ok) {
+          throw new Error('Failed to load documents');
+        }
+        const data = await response.json();
+        if (!cancelled) {
+          const list: GeneratedDocument[] = data?.data || [];
+          setDocuments(list.slice().sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || '')));
+          setError('');
+        }
+      } catch (err) {
+        console.error('Document history error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load documents');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchDocuments();
+    return () => {
+      cancelled = true;
+    };
+  }, [documentsUrl, refreshKey]);
+
+  const fetchDocument = async (documentId: string): Promise<GeneratedDocument> => {
+    const response = await authFetch(`${documentsUrl}/${documentId}`);
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.details || errorData.error || 'Failed to open document');
+    }
+    return response.json();
+  };
+
+  const openDocument = async (documentId: string) => {
+    setBusyId(documentId);
+    setError('');
+    try {
+      onOpen(await fetchDocument(documentId));
+    } catch (err) {
+      console.error('Open document error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open document');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteDocument = async (doc: GeneratedDocument) => {
+    if (!window.confirm(`Delete "${doc.name || 'Untitled document'}"? This cannot be undone.`)) {
+      return;
+    }
+
+    setBusyId(doc.id);
+    setError('');
+    try {
+      const response = await authFetch(`${documentsUrl}/${doc.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to delete document');
+      }
+      setDocuments(prev => prev.filter(d => d.id !== doc.id));
+      setSelectedIds(prev => prev.filter(id => id !== doc.id));
+      setComparison(prev => (prev?.some(d => d.id === doc.id) ? null : prev));
+      onDeleted(doc.id);
+    } catch (err) {
+      console.error('Delete document error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete document');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleSelected = (documentId: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(documentId)) {
+        return prev.filter(id => id !== documentId);
+      }
+      // Selecting a third document replaces the oldest selection
+      return [...prev, documentId].slice(-MAX_COMPARE);
+    });
+  };
+
+  const compareSelected = async () => {
+    setIsComparing(true);
+    setError('');
+    try {
+      const [left, right] = await Promise.all(selectedIds.map(fetchDocument));
+      setComparison([left, right]);
+    } catch (err) {
+      console.error('Compare documents error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load documents for comparison');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const isBusy = disabled || busyId !== null || isComparing;
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <h4 className={styles.title}>Documents for this session</h4>
+        {documents.length >= MAX_COMPARE && (
+          <button
+            onClick={compareSelected}
+            disabled={isBusy || selectedIds.length !== MAX_COMPARE}
+            className={styles.compareButton}
+          >
+            {isComparing ? 'Loading...' : `Compare selected (${selectedIds.length}/${MAX_COMPARE})`}
+          </button>
+        )}
+      </div>
+
+      {error && <div className={styles.errorBanner}>{error}</div>}
+
+      {isLoading ? (
+        <div className={styles.emptyState}>Loading documents...</div>
+      ) : documents.length === 0 ? (
+        <div className={styles.emptyState}>No documents generated yet.</div>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th />
+              <th>Name</th>
+              <th>Template</th>
+              <th>Language</th>
+              <th>Created</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {documents.map(doc => {
+              const isActive = doc.id === activeDocumentId;
+              return (
+                <tr key={doc.id} className={isActive ? styles.activeRow : undefined}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(doc.id)}
+                      onChange={() => toggleSelected(doc.id)}
+                      disabled={isBusy}
+                      aria-label={`Select ${doc.name} for comparison`}
+                    />
+                  </td>
+                  <td>{doc.name || 'Untitled document'}</td>
+                  <td>{doc.templateRef || doc.templateKey || '—'}</td>
+                  <td>{languageName(doc.outputLanguage)}</td>
+                  <td>{formatDate(doc.createdAt)}</td>
+                  <td>
+                    <div className={styles.rowActions}>
+                      <button
+                        onClick={() => openDocument(doc.id)}
+                        disabled={isBusy || isActive}
+                        className={styles.rowButton}
+                      >
+                        {busyId === doc.id ? '...' : isActive ? 'Showing' : 'View'}
+                      </button>
+                      <button
+                        onClick={() => deleteDocument(doc)}
+                        disabled={isBusy}
+                        className={styles.deleteButton}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {comparison && (
+        <DocumentCompare
+          left={comparison[0]}
+          right={comparison[1]}
+          onClose={() => setComparison(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DocumentHistory;
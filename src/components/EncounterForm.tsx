@@ -0,0 +1,84 @@
+import React from 'react';
+import {
+  ENCOUNTER_TYPES,
+  MAX_ENCOUNTER_FIELD_LENGTH,
+  type EncounterSettings,
+  type EncounterType,
+} from '../constants';
+import styles from './EncounterForm.module.css';
+
+interface EncounterFormProps {
+  encounter: EncounterSettings;
+  onChange: (encounter: EncounterSettings) => void;
+  disabled?: boolean;
+}
+
+// The encounter a session is recorded for. Every field is optional: without
+// an ID the backend generates one, and the title falls back to a default.
+const EncounterForm: React.FC<EncounterFormProps> = ({
+  encounter,
+  onChange,
+  disabled = false
+}) => {
+  const update = (patch: Partial<EncounterSettings>) => onChange({ ...encounter, ...patch });
+
+  return (
+    <div className={styles.form}>
+      <div>
+        <label className={styles.label} htmlFor="encounter-identifier">Encounter ID</label>
+        <input
+          id="encounter-identifier"
+          value={encounter.identifier}
+          onChange={(e) => update({ identifier: e.target.value })}
+          placeholder="Generated if empty"
+          maxLength={MAX_ENCOUNTER_FIELD_LENGTH}
+          disabled={disabled}
+          className={styles.input}
+        />
+      </div>
+
+      <div>
+        <label className={styles.label} htmlFor="encounter-type">Encounter Type</label>
+        <select
+          id="encounter-type"
+          value={encounter.type}
+          onChange={(e) => update({ type: e.target.value as EncounterType })}
+          disabled={disabled}
+          className={styles.input}
+        >
+          {ENCOUNTER_TYPES.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={styles.label} htmlFor="encounter-title">Title</label>
+        <input
+          id="encounter-title"
+          value={encounter.title}
+          onChange={(e) => update({ title: e.target.value })}
+          placeholder="Ambient Documentation Session"
+          maxLength={MAX_ENCOUNTER_FIELD_LENGTH}
+          disabled={disabled}
+          className={styles.input}
+        />
+      </div>
+
+      <div>
+        <label className={styles.label} htmlFor="encounter-patient">Patient Reference</label>
+        <input
+          id="encounter-patient"
+          value={encounter.patientIdentifier}
+          onChange={(e) => update({ patientIdentifier: e.target.value })}
+          placeholder="Optional, e.g. MRN"
+          maxLength={MAX_ENCOUNTER_FIELD_LENGTH}
+          disabled={disabled}
+          className={styles.input}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EncounterForm;
@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import { api, buildUrl, factGroups } from '../constants';
+import { authFetch } from '../utils/auth';
+import styles from './FactsPanel.module.css';
+
+export interface Fact {
+  id: string;
+  text: string;
+  group: string;
+  groupId?: string;
+  isDiscarded?: boolean;
+  source?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+interface FactsPanelProps {
+  interactionId: string | null;
+  facts: Fact[];
+  // Apply a fact returned by the backend to the parent's fact list
+  onFactSaved: (fact: Fact) => void;
+  // Shown instead of the list while there are no active facts
+  emptyState: React.ReactNode;
+  readOnly?: boolean;
+}
+
+interface FactDraft {
+  text: string;
+  group: string;
+}
+
+const GROUP_KEYS = Object.keys(factGroups);
+
+const getGroupStyle = (group: string) => {
+  return factGroups[group] || { label: group, color: '#6B7280', bg: '#F9FAFB' };
+};
+
+const FactsPanel: React.FC<FactsPanelProps> = ({
+  interactionId,
+  facts,
+  onFactSaved,
+  emptyState,
+  readOnly = false,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<FactDraft>({ text: '', group: '' });
+  const [newFact, setNewFact] = useState<FactDraft>({ text: '', group: GROUP_KEYS[0] });
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [showDiscarded, setShowDiscarded] = useState(false);
+  const [error, setError] = useState('');
+
+  const canEdit = !!interactionId && !readOnly;
+  const activeFacts = facts.filter(f => !f.isDiscarded);
+  const discardedFacts = facts.filter(f => f.isDiscarded);
+
+  const groupedFacts = activeFacts.reduce((acc, fact) => {
+    const group = fact.group || 'other';
+    if (!acc[group]) acc[group] = [];
+    acc[group].push(fact);
+    return acc;
+  }, {} as Record<string, Fact[]>);
+
+  // Categories offered in the pickers: the known groups plus any the stream produced
+  const groupOptions = Array.from(new Set([...GROUP_KEYS, ...facts.map(f => f.group).filter(Boolean)]));
+
+  const saveFact = async (savingKey: string, request: () => Promise<Response>, fallback: string) => {
+    setSavingId(savingKey);
+    setError('');
+    try {
+      const response = await request();
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || fallback);
+      }
+      onFactSaved(await response.json());
+      return true;
+    } catch (err) {
+      console.error('Fact update error:', err);
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const updateFact = (factId: string, changes: Partial<Pick<Fact, 'text' | 'group' | 'isDiscarded'>>) =>
+    saveFact(
+      factId,
+      () => authFetch(buildUrl(`${api.endpoints.interactions}/${interactionId}/facts/${factId}`), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      }),
+      'Failed to update fact'
+    );
+
+  const startEditing = (fact: Fact) => {
+    setEditingId(fact.id);
+    setDraft({ text: fact.text, group: fact.group });
+    setError('');
+  };
+
+  const saveEdit = async (fact: Fact) => {
+    const text = draft.text.trim();
+    if (!text) {
+      setError('Fact text cannot be empty');
+      return;
+    }
+    if (text === fact.text && draft.group === fact.group) {
+      setEditingId(null);
+      return;
+    }
+    const changes = {
+      ...(text !== fact.text && { text }),
+      ...(draft.group !== fact.group && { group: draft.group }),
+    };
+    if (await updateFact(fact.id, changes)) {
+      setEditingId(null);
+    }
+  };
+
+  const addFact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = newFact.text.trim();
+    if (!text) return;
+
+    const added = await saveFact(
+      'new',
+      () => authFetch(buildUrl(`${api.endpoints.interactions}/${interactionId}/facts`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, group: newFact.group }),
+      }),
+      'Failed to add fact'
+    );
+    if (added) {
+      setNewFact(prev => ({ ...prev, text: '' }));
+    }
+  };
+
+  // Download the current fact set as a FHIR R4 Bundle built by the backend
+  const exportFhir = async () => {
+    setSavingId('fhir');
+    setError('');
+    try {
+      const response = await authFetch(buildUrl(`${api.endpoints.interactions}/${interactionId}/facts/fhir`));
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to export facts');
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `facts-${interactionId}.fhir.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Facts FHIR export error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export facts');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const renderGroupSelect = (value: string, onChange: (group: string) => void, disabled: boolean) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className={styles.groupSelect}
+    >
+      {groupOptions.map(group => (
+        <option key={group} value={group}>{getGroupStyle(group).label}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div>
+      {error && <div className={styles.errorBanner}>{error}</div>}
+
+      {activeFacts.length === 0 ? (
+        <div className={styles.emptyState}>{emptyState}</div>
+      ) : (
+        <div className={styles.factsContainer}>
+          {Object.entries(groupedFacts).map(([group, groupFacts]) => {
+            const style = getGroupStyle(group);
+            return (
+              <div key={group}>
+                <div className={styles.factGroupLabel} style={{ color: style.color }}>
+                  {style.label}
+                </div>
+                <div className={styles.factsList}>
+                  {groupFacts.map((fact) => {
+                    const isSaving = savingId === fact.id;
+
+                    if (editingId === fact.id) {
+                      return (
+                        <div key={fact.id} className={styles.editRow}>
+                          <textarea
+                            value={draft.text}
+                            onChange={(e) => setDraft(prev => ({ ...prev, text: e.target.value }))}
+                            disabled={isSaving}
+                            className={styles.editText}
+                            rows={2}
+                            autoFocus
+                          />
+                          <div className={styles.editActions}>
+                            {renderGroupSelect(draft.group, group => setDraft(prev => ({ ...prev, group })), isSaving)}
+                            <button
+                              onClick={() => saveEdit(fact)}
+                              disabled={isSaving}
+                              className={styles.primaryButton}
+                            >
+                              {isSaving ? 'Saving...' : 'Save'}
+                            </button>
+                            <button
+                              onClick={() => setEditingId(null)}
+                              disabled={isSaving}
+                              className={styles.secondaryButton}
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    }
+
+                    return (
+                      <div
+                        key={fact.id}
+                        className={styles.factItem}
+                        style={{
+                          backgroundColor: style.bg,
+                          borderColor: `${style.color}20`,
+                        }}
+                      >
+                        <span className={styles.factText}>
+                          {fact.text}
+                          {fact.source === 'user' && <span className={styles.editedBadge}>edited</span>}
+                        </span>
+                        {canEdit && (
+                          <span className={styles.factActions}>
+                            <button
+                              onClick={() => startEditing(fact)}
+                              disabled={savingId !== null}
+                              className={styles.linkButton}
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => updateFact(fact.id, { isDiscarded: true })}
+                              disabled={savingId !== null}
+                              className={styles.linkButton}
+                            >
+                              {isSaving ? 'Discarding...' : 'Discard'}
+                            </button>
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={addFact} className={styles.addForm}>
+          {renderGroupSelect(newFact.group, group => setNewFact(prev => ({ ...prev, group })), savingId === 'new')}
+          <input
+            type="text"
+            value={newFact.text}
+            onChange={(e) => setNewFact(prev => ({ ...prev, text: e.target.value }))}
+            placeholder="Add a fact..."
+            disabled={savingId === 'new'}
+            className={styles.addInput}
+          />
+          <button
+            type="submit"
+            disabled={savingId !== null || !newFact.text.trim()}
+            className={styles.primaryButton}
+          >
+            {savingId === 'new' ? 'Adding...' : 'Add'}
+          </button>
+        </form>
+      )}
+
+      {interactionId && activeFacts.length > 0 && (
+        <div className={styles.exportRow}>
+          <button
+            onClick={exportFhir}
+            disabled={savingId !== null}
+            className={styles.secondaryButton}
+            title="Allergies, medications, medical history and vitals as structured resources"
+          >
+            {savingId === 'fhir' ? 'Exporting...' : 'Export as FHIR'}
+          </button>
+        </div>
+      )}
+
+      {discardedFacts.length > 0 && (
+        <div className={styles.discardedSection}>
+          <button
+            onClick={() => setShowDiscarded(prev => !prev)}
+            className={styles.discardedToggle}
+          >
+            {showDiscarded ? '▾' : '▸'} Discarded ({discardedFacts.length})
+          </button>
+          {showDiscarded && (
+            <div className={styles.factsList}>
+              {discardedFacts.map(fact => (
+                <div key={fact.id} className={styles.discardedItem}>
+                  <span className={styles.factText}>
+                    <span className={styles.discardedGroup}>{getGroupStyle(fact.group).label}</span>
+                    {fact.text}
+                  </span>
+                  {canEdit && (
+                    <button
+                      onClick={() => updateFact(fact.id, { isDiscarded: false })}
+                      disabled={savingId !== null}
+                      className={styles.linkButton}
+                    >
+                      {savingId === fact.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FactsPanel;
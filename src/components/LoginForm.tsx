@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { api, buildUrl } from '../constants';
+import { setAuthSession } from '../utils/auth';
+import styles from './LoginForm.module.css';
+
+const LoginForm: React.FC = () => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(buildUrl(api.endpoints.login), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim(), password }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to sign in');
+      }
+
+      setAuthSession(await response.json());
+    } catch (err) {
+      console.error('Login error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={styles.form}>
+      <div className={styles.title}>Sign in</div>
+      <p className={styles.hint}>
+        Accounts are created on the backend with <code>npm run user:add</code>.
+      </p>
+
+      {error && <div className={styles.errorBanner}>{error}</div>}
+
+      <label className={styles.label}>
+        Username
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          disabled={isSubmitting}
+          className={styles.input}
+          autoFocus
+        />
+      </label>
+
+      <label className={styles.label}>
+        Password
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          disabled={isSubmitting}
+          className={styles.input}
+        />
+      </label>
+
+      <button
+        type="submit"
+        disabled={isSubmitting || !username.trim() || !password}
+        className={styles.submitButton}
+      >
+        {isSubmitting ? 'Signing in...' : 'Sign in'}
+      </button>
+    </form>
+  );
+};
+
+export default LoginForm;
@@ -0,0 +1,106 @@
+import React from 'react';
+import styles from './MarkdownPreview.module.css';
+
+interface MarkdownPreviewProps {
+  text: string;
+}
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'paragraph'; lines: string[] };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+// Bold (** or __) before italic (* or _) so the longer markers win
+const INLINE = /(\*\*|__)(.+?)\1|(\*|_)(.+?)\3/g;
+
+// Group lines into headings, lists and paragraphs. Section text from the
+// documents API only uses this small subset of markdown.
+const parseBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(HEADING);
+    const bullet = line.match(BULLET);
+    const numbered = line.match(NUMBERED);
+    const last = blocks[blocks.length - 1];
+
+    if (!line.trim()) {
+      blocks.push({ type: 'paragraph', lines: [] });
+    } else if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (bullet || numbered) {
+      const ordered = !bullet;
+      const item = (bullet || numbered)![1];
+      if (last?.type === 'list' && last.ordered === ordered) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [item] });
+      }
+    } else if (last?.type === 'paragraph') {
+      last.lines.push(line);
+    } else {
+      blocks.push({ type: 'paragraph', lines: [line] });
+    }
+  }
+
+  return blocks.filter(block => block.type !== 'paragraph' || block.lines.length > 0);
+};
+
+const renderInline = (text: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    if (match.index > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index));
+    }
+    nodes.push(match[2] !== undefined
+      ? <strong key={match.index}>{match[2]}</strong>
+      : <em key={match.index}>{match[4]}</em>);
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+
+  return nodes;
+};
+
+const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({ text }) => {
+  const blocks = parseBlocks(text);
+
+  if (blocks.length === 0) {
+    return <span className={styles.empty}>No content</span>;
+  }
+
+  return (
+    <div className={styles.preview}>
+      {blocks.map((block, idx) => {
+        if (block.type === 'heading') {
+          return <div key={idx} className={styles.heading}>{renderInline(block.text)}</div>;
+        }
+        if (block.type === 'list') {
+          const items = block.items.map((item, i) => <li key={i}>{renderInline(item)}</li>);
+          return block.ordered
+            ? <ol key={idx} className={styles.list}>{items}</ol>
+            : <ul key={idx} className={styles.list}>{items}</ul>;
+        }
+        return (
+          <p key={idx} className={styles.paragraph}>
+            {block.lines.map((line, i) => (
+              <React.Fragment key={i}>
+                {i > 0 && <br />}
+                {renderInline(line)}
+              </React.Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MarkdownPreview;
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { api, buildUrl } from '../constants';
+import { authFetch, withAuthToken } from '../utils/auth';
+import styles from './SessionAudioPlayer.module.css';
+
+interface SessionAudioPlayerProps {
+  interactionId: string;
+  // Lets the parent seek, e.g. when a transcript segment is clicked
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+  onTimeUpdate: (seconds: number) => void;
+}
+
+// Plays the session's archived audio, if the server kept any. Renders nothing
+// when archiving is off or the session was processed from an upload.
+const SessionAudioPlayer: React.FC<SessionAudioPlayerProps> = ({
+  interactionId,
+  audioRef,
+  onTimeUpdate
+}) => {
+  const [isAvailable, setIsAvailable] = useState(false);
+  const audioUrl = buildUrl(`${api.endpoints.interactions}/${interactionId}/audio`);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // HEAD first: a 404 from the <audio> element itself would only show a broken player
+    const checkAudio = async () => {
+      try {
+        const response = await authFetch(audioUrl, { method: 'HEAD' });
+        if (!cancelled) setIsAvailable(response.ok);
+      } catch (err) {
+        console.error('Session audio check error:', err);
+        if (!cancelled) setIsAvailable(false);
+      }
+    };
+
+    checkAudio();
+    return () => {
+      cancelled = true;
+    };
+  }, [audioUrl]);
+
+  if (!isAvailable) return null;
+
+  return (
+    <div className={styles.container}>
+      <span className={styles.label}>Session audio</span>
+      <audio
+        ref={audioRef}
+        src={withAuthToken(audioUrl)}
+        controls
+        preload="metadata"
+        onTimeUpdate={(e) => onTimeUpdate(e.currentTarget.currentTime)}
+        onSeeked={(e) => onTimeUpdate(e.currentTarget.currentTime)}
+        className={styles.audio}
+      />
+    </div>
+  );
+};
+
+export default SessionAudioPlayer;
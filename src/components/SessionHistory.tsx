@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { api, buildUrl } from '../constants';
+import { authFetch } from '../utils/auth';
+import styles from './SessionHistory.module.css';
+
+interface SessionSummary {
+  interactionId: string;
+  source: 'live' | 'upload';
+  status: 'in-progress' | 'completed';
+  title: string | null;
+  encounterIdentifier: string | null;
+  language: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  segmentCount: number;
+  factCount: number;
+  documentCount: number;
+  credits: number;
+}
+
+export interface StoredSession {
+  interactionId: string;
+  source: 'live' | 'upload';
+  status: 'in-progress' | 'completed';
+  // Missing on sessions recorded before encounters were captured
+  encounter?: {
+    identifier: string;
+    type: string;
+    title: string | null;
+    patientIdentifier: string | null;
+  } | null;
+  configuration: {
+    transcription?: { isMultichannel?: boolean; participants?: { channel: number; role: string }[] };
+  } | null;
+  startedAt: string;
+  endedAt: string | null;
+  transcript: {
+    id: string;
+    text: string;
+    isFinal: boolean;
+    speakerId?: number;
+    channel?: number;
+    start?: number;
+    end?: number;
+  }[];
+  facts: {
+    id: string;
+    text: string;
+    group: string;
+    groupId?: string;
+    isDiscarded?: boolean;
+    source?: string;
+  }[];
+  usage: { credits: number; events: number };
+  documents: {
+    id: string;
+    name: string;
+    templateKey: string;
+    sections: { key: string; name: string; text: string; sort: number }[];
+    createdAt?: string;
+    updatedAt?: string;
+  }[];
+}
+
+interface SessionHistoryProps {
+  activeInteractionId: string | null;
+  onOpen: (session: StoredSession) => void;
+  // Bump to re-fetch the list, e.g. after a session ends
+  refreshKey: number;
+  disabled?: boolean;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const formatDuration = (startedAt: string, endedAt: string | null) => {
+  if (!endedAt) return '—';
+  const seconds = Math.max(0, Math.round((Date.parse(endedAt) - Date.parse(startedAt)) / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({
+  activeInteractionId,
+  onOpen,
+  refreshKey,
+  disabled = false
+}) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchSessions = async () => {
+      try {
+        const response = await authFetch(buildUrl(api.endpoints.sessions));
+        if (!response.ok) {
+          throw new Error('Failed to load session history');
+        }
+        const data = await response.json();
+        if (!cancelled) {
+          setSessions(data.sessions || []);
+          setError('');
+        }
+      } catch (err) {
+        console.error('Session history error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load session history');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchSessions();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const openSession = async (interactionId: string) => {
+    setOpeningId(interactionId);
+    setError('');
+    try {
+      const response = await authFetch(buildUrl(`${api.endpoints.sessions}/${interactionId}`));
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to open session');
+      }
+      onOpen(await response.json());
+    } catch (err) {
+      console.error('Open session error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open session');
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <h3 className={styles.title}>Session History</h3>
+
+      {error && <div className={styles.errorBanner}>{error}</div>}
+
+      {isLoading ? (
+        <div className={styles.emptyState}>Loading sessions...</div>
+      ) : sessions.length === 0 ? (
+        <div className={styles.emptyState}>No past sessions yet.</div>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Started</th>
+              <th>Encounter</th>
+              <th>Duration</th>
+              <th>Source</th>
+              <th>Segments</th>
+              <th>Facts</th>
+              <th>Documents</th>
+              <th>Credits</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {sessions.map(session => {
+              const isActive = session.interactionId === activeInteractionId;
+              return (
+                <tr key={session.interactionId} className={isActive ? styles.activeRow : undefined}>
+                  <td title={session.interactionId}>{formatDate(session.startedAt)}</td>
+                  <td title={session.encounterIdentifier || undefined}>{session.title || '—'}</td>
+                  <td>{session.status === 'in-progress' ? 'In progress' : formatDuration(session.startedAt, session.endedAt)}</td>
+                  <td>{session.source === 'upload' ? 'Upload' : 'Live'}{session.language ? ` • ${session.language}` : ''}</td>
+                  <td>{session.segmentCount}</td>
+                  <td>{session.factCount}</td>
+                  <td>{session.documentCount}</td>
+                  <td>${session.credits.toFixed(4)}</td>
+                  <td>
+                    <button
+                      onClick={() => openSession(session.interactionId)}
+                      disabled={disabled || isActive || openingId !== null}
+                      className={styles.openButton}
+                    >
+                      {openingId === session.interactionId ? 'Opening...' : isActive ? 'Current' : 'View'}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default SessionHistory;
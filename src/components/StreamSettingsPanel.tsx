@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AUDIO_ENCODINGS,
+  PARTICIPANT_ROLES,
+  REMOTE_AUDIO_SOURCES,
+  STREAM_MODES,
+  SUPPORTED_LANGUAGES,
+  type AudioEncoding,
+  type ParticipantRole,
+  type RemoteAudioSource,
+  type StreamMode,
+  type StreamSettings,
+} from '../constants';
+import { isDisplayAudioSupported, listAudioInputs, type AudioInputDevice } from '../utils/remoteAudio';
+import styles from './StreamSettingsPanel.module.css';
+
+interface StreamSettingsPanelProps {
+  settings: StreamSettings;
+  onChange: (settings: StreamSettings) => void;
+  disabled?: boolean;
+}
+
+const StreamSettingsPanel: React.FC<StreamSettingsPanelProps> = ({
+  settings,
+  onChange,
+  disabled = false
+}) => {
+  const [inputDevices, setInputDevices] = useState<AudioInputDevice[]>([]);
+  const update = (patch: Partial<StreamSettings>) => onChange({ ...settings, ...patch });
+  const isDeviceSource = settings.isMultichannel && settings.remoteSource === 'device';
+
+  useEffect(() => {
+    if (!isDeviceSource) return;
+    let cancelled = false;
+
+    const loadDevices = async () => {
+      try {
+        const devices = await listAudioInputs();
+        if (!cancelled) setInputDevices(devices);
+      } catch (err) {
+        console.error('Audio input list error:', err);
+      }
+    };
+
+    loadDevices();
+    return () => {
+      cancelled = true;
+    };
+  }, [isDeviceSource]);
+
+  const setMultichannel = (isMultichannel: boolean) => {
+    update({
+      isMultichannel,
+      roles: isMultichannel ? ['doctor', 'patient'] : ['multiple'],
+      // Without getDisplayMedia (e.g. mobile browsers) only a second device works
+      remoteSource: isDisplayAudioSupported() ? settings.remoteSource : 'device',
+    });
+  };
+
+  const setRole = (channel: number, role: ParticipantRole) => {
+    update({ roles: settings.roles.map((r, i) => (i === channel ? role : r)) });
+  };
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.grid}>
+        <div>
+          <label className={styles.label}>Spoken Language</label>
+          <select
+            value={settings.primaryLanguage}
+            onChange={(e) => update({ primaryLanguage: e.target.value })}
+            disabled={disabled}
+            className={styles.select}
+          >
+            {SUPPORTED_LANGUAGES.map(lang => (
+              <option key={lang.code} value={lang.code}>{lang.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className={styles.label}>Mode</label>
+          <select
+            value={settings.mode}
+            onChange={(e) => update({ mode: e.target.value as StreamMode })}
+            disabled={disabled}
+            className={styles.select}
+          >
+            {STREAM_MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className={styles.label}>Facts Language</label>
+          <select
+            value={settings.outputLocale}
+            onChange={(e) => update({ outputLocale: e.target.value })}
+            disabled={disabled || settings.mode !== 'facts'}
+            className={styles.select}
+          >
+            {SUPPORTED_LANGUAGES.map(lang => (
+              <option key={lang.code} value={lang.code}>{lang.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className={styles.label}>Audio Format</label>
+          <select
+            value={settings.audioEncoding}
+            onChange={(e) => update({ audioEncoding: e.target.value as AudioEncoding })}
+            disabled={disabled}
+            className={styles.select}
+          >
+            {AUDIO_ENCODINGS.map(encoding => (
+              <option key={encoding.value} value={encoding.value}>{encoding.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className={styles.grid}>
+        <label className={styles.toggle}>
+          <input
+            type="checkbox"
+            checked={settings.isDiarization}
+            onChange={(e) => update({ isDiarization: e.target.checked })}
+            disabled={disabled}
+          />
+          Speaker diarization
+        </label>
+
+        <label className={styles.toggle}>
+          <input
+            type="checkbox"
+            checked={settings.isMultichannel}
+            onChange={(e) => setMultichannel(e.target.checked)}
+            disabled={disabled}
+          />
+          Multichannel audio
+        </label>
+
+        <div className={styles.roles}>
+          {settings.roles.map((role, channel) => (
+            <div key={channel} className={styles.roleRow}>
+              <span className={styles.roleLabel}>
+                Channel {channel}{settings.isMultichannel && (channel === 0 ? ' · Microphone' : ' · Call audio')}
+              </span>
+              <select
+                value={role}
+                onChange={(e) => setRole(channel, e.target.value as ParticipantRole)}
+                disabled={disabled}
+                className={styles.select}
+              >
+                {PARTICIPANT_ROLES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {settings.isMultichannel && (
+        <div className={styles.grid}>
+          <div>
+            <label className={styles.label}>Channel 1 Source</label>
+            <select
+              value={settings.remoteSource}
+              onChange={(e) => update({ remoteSource: e.target.value as RemoteAudioSource })}
+              disabled={disabled}
+              className={styles.select}
+            >
+              {REMOTE_AUDIO_SOURCES.map(source => (
+                <option
+                  key={source.value}
+                  value={source.value}
+                  disabled={source.value === 'display' && !isDisplayAudioSupported()}
+                >
+                  {source.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {isDeviceSource && (
+            <div>
+              <label className={styles.label}>Input Device</label>
+              <select
+                value={settings.remoteDeviceId}
+                onChange={(e) => update({ remoteDeviceId: e.target.value })}
+                disabled={disabled}
+                className={styles.select}
+              >
+                <option value="">Choose a device</option>
+                {inputDevices.map(device => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <p className={styles.hint}>
+            {settings.remoteSource === 'display'
+              ? 'When recording starts, share the tab or window of the video call with audio turned on.'
+              : 'Pick the device that carries the call audio, such as a loopback or virtual cable.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreamSettingsPanel;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { formatTimestamp, getSpeakerLabel } from '../utils/transcript';
+import styles from './TranscriptContextEditor.module.css';
+
+interface TranscriptSegment {
+  id: string;
+  text: string;
+  isFinal: boolean;
+  speaker?: string;
+  start?: number;
+  end?: number;
+}
+
+interface TranscriptContextEditorProps {
+  segments: TranscriptSegment[];
+  // Speaker labels to show per segment, or null when speakers aren't distinguished
+  speakerLabels: Record<string, string> | null;
+  excluded: Record<string, boolean>;
+  edits: Record<string, string>;
+  onToggle: (id: string) => void;
+  onEdit: (id: string, text: string) => void;
+  onResetEdits: () => void;
+  disabled?: boolean;
+}
+
+const TranscriptContextEditor: React.FC<TranscriptContextEditorProps> = ({
+  segments,
+  speakerLabels,
+  excluded,
+  edits,
+  onToggle,
+  onEdit,
+  onResetEdits,
+  disabled = false
+}) => {
+  const includedCount = segments.filter(s => !excluded[s.id]).length;
+  const hasChanges = Object.keys(edits).length > 0 || includedCount !== segments.length;
+
+  if (segments.length === 0) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.empty}>No final transcript segments yet.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <span>
+          Transcript context • {includedCount} of {segments.length} segments included
+        </span>
+        {hasChanges && (
+          <button
+            onClick={onResetEdits}
+            disabled={disabled}
+            className={styles.resetButton}
+          >
+            Reset changes
+          </button>
+        )}
+      </div>
+
+      <div className={styles.segmentList}>
+        {segments.map(segment => {
+          const isExcluded = !!excluded[segment.id];
+          const text = edits[segment.id] ?? segment.text;
+          return (
+            <div
+              key={segment.id}
+              className={styles.segmentRow}
+              style={{ opacity: isExcluded ? 0.5 : 1 }}
+            >
+              <input
+                type="checkbox"
+                checked={!isExcluded}
+                onChange={() => onToggle(segment.id)}
+                disabled={disabled}
+                className={styles.checkbox}
+                aria-label="Include segment"
+              />
+              {segment.start !== undefined && (
+                <span className={styles.timestamp}>{formatTimestamp(segment.start)}</span>
+              )}
+              {speakerLabels && (
+                <span className={styles.speaker}>{getSpeakerLabel(segment.speaker, speakerLabels)}</span>
+              )}
+              <textarea
+                value={text}
+                onChange={(e) => onEdit(segment.id, e.target.value)}
+                disabled={disabled || isExcluded}
+                rows={Math.max(1, Math.ceil(text.length / 90))}
+                className={styles.segmentText}
+                style={{ fontStyle: edits[segment.id] !== undefined ? 'italic' : 'normal' }}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptContextEditor;
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  formatTimestamp,
+  getSpeakerLabel,
+  groupIntoTurns,
+  hasSpeakerAttribution,
+  SPEAKER_LABEL_SUGGESTIONS,
+} from '../utils/transcript';
+import styles from './TranscriptView.module.css';
+
+interface TranscriptSegment {
+  id: string;
+  text: string;
+  speaker?: string;
+  start?: number;
+  end?: number;
+}
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  interimText: string;
+  speakerLabels: Record<string, string>;
+  onRelabel: (speaker: string, label: string) => void;
+  // Segment under the audio playback position, highlighted and kept in view
+  activeSegmentId?: string | null;
+  // Makes timed segments clickable, e.g. to seek the audio player
+  onSegmentClick?: (segment: TranscriptSegment) => void;
+}
+
+const SPEAKER_COLORS = ['#2563EB', '#059669', '#D97706', '#7C3AED', '#DB2777', '#0891B2'];
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({
+  segments,
+  interimText,
+  speakerLabels,
+  onRelabel,
+  activeSegmentId = null,
+  onSegmentClick
+}) => {
+  const endRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [segments, interimText]);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeSegmentId]);
+
+  const turns = groupIntoTurns(segments);
+  const speakers = Array.from(new Set(turns.map(t => t.speaker)));
+  const showSpeakers = hasSpeakerAttribution(segments, speakerLabels);
+  const colorFor = (speaker: string) =>
+    SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length];
+
+  return (
+    <div className={styles.container}>
+      {showSpeakers && speakers.length > 0 && (
+        <div className={styles.speakerLegend}>
+          {speakers.map(speaker => (
+            <label key={speaker} className={styles.speakerField}>
+              <span className={styles.speakerDot} style={{ backgroundColor: colorFor(speaker) }} />
+              <input
+                value={speakerLabels[speaker] ?? ''}
+                placeholder={getSpeakerLabel(speaker, {})}
+                onChange={(e) => onRelabel(speaker, e.target.value)}
+                list="speaker-label-suggestions"
+                className={styles.speakerInput}
+                aria-label={`Label for ${getSpeakerLabel(speaker, {})}`}
+              />
+            </label>
+          ))}
+          <datalist id="speaker-label-suggestions">
+            {SPEAKER_LABEL_SUGGESTIONS.map(label => (
+              <option key={label} value={label} />
+            ))}
+          </datalist>
+        </div>
+      )}
+
+      {turns.map(turn => (
+        <div key={turn.segments[0].id} className={styles.turn}>
+          <div className={styles.turnHeader}>
+            {showSpeakers && (
+              <span className={styles.speakerName} style={{ color: colorFor(turn.speaker) }}>
+                {getSpeakerLabel(turn.speaker, speakerLabels)}
+              </span>
+            )}
+            {turn.start !== undefined && (
+              <span className={styles.turnTime}>
+                {formatTimestamp(turn.start)}
+                {turn.end !== undefined && ` – ${formatTimestamp(turn.end)}`}
+              </span>
+            )}
+          </div>
+          <div className={styles.turnText}>
+            {turn.segments.map(seg => {
+              const isActive = seg.id === activeSegmentId;
+              const isClickable = !!onSegmentClick && seg.start !== undefined;
+              return (
+                <React.Fragment key={seg.id}>
+                  <span
+                    ref={isActive ? activeRef : undefined}
+                    className={[
+                      isClickable && styles.segmentClickable,
+                      isActive && styles.segmentActive,
+                    ].filter(Boolean).join(' ') || undefined}
+                    onClick={isClickable ? () => onSegmentClick?.(seg) : undefined}
+                    title={isClickable ? `Play from ${formatTimestamp(seg.start ?? 0)}` : undefined}
+                  >
+                    {seg.text}
+                  </span>{' '}
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {interimText && (
+        <div className={styles.interimText}>{interimText}</div>
+      )}
+      <div ref={endRef} />
+    </div>
+  );
+};
+
+export default TranscriptView;
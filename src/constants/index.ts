@@ -34,13 +34,18 @@ export const api = {
   // REST endpoints
   endpoints: {
     health: '/api/health',
+    login: '/api/auth/login',
+    logout: '/api/auth/logout',
     templates: '/api/templates',
     interactions: '/api/interactions',
+    uploads: '/api/uploads',
+    sessions: '/api/sessions',
   },
   
   // WebSocket endpoints
   ws: {
     ambient: '/ws/ambient',
+    dictation: '/ws/dictation',
   },
 } as const;
 
@@ -75,6 +80,138 @@ export const DEFAULT_TEMPLATE = {
   name: 'SOAP Note',
 } as const;
 
+// Documents per batch; same cap as the backend
+export const MAX_BATCH_DOCUMENTS = 10;
+
+// Export formats rendered by the backend export route; JSON is built in the browser
+export type ExportFormat = 'pdf' | 'docx' | 'md' | 'fhir' | 'json';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: 'pdf', label: 'PDF', extension: 'pdf' },
+  { value: 'docx', label: 'Word (DOCX)', extension: 'docx' },
+  { value: 'md', label: 'Markdown', extension: 'md' },
+  { value: 'fhir', label: 'FHIR R4 Bundle', extension: 'fhir.json' },
+  { value: 'json', label: 'Raw JSON', extension: 'json' },
+];
+
+// ============================================
+// Encounter
+// ============================================
+export type EncounterType = 'first_consultation' | 'consultation' | 'emergency' | 'inpatient' | 'outpatient';
+
+// Sent in the `start` message; empty fields are filled in by the backend
+export interface EncounterSettings {
+  // External encounter ID, e.g. from the EHR
+  identifier: string;
+  type: EncounterType;
+  title: string;
+  // Optional patient reference, e.g. an MRN or a FHIR Patient ID
+  patientIdentifier: string;
+}
+
+export const DEFAULT_ENCOUNTER: EncounterSettings = {
+  identifier: '',
+  type: 'consultation',
+  title: '',
+  patientIdentifier: '',
+};
+
+export const ENCOUNTER_TYPES: { value: EncounterType; label: string }[] = [
+  { value: 'first_consultation', label: 'First consultation' },
+  { value: 'consultation', label: 'Consultation' },
+  { value: 'outpatient', label: 'Outpatient' },
+  { value: 'inpatient', label: 'Inpatient' },
+  { value: 'emergency', label: 'Emergency' },
+];
+
+// Same cap as the backend
+export const MAX_ENCOUNTER_FIELD_LENGTH = 200;
+
+// ============================================
+// Stream Configuration
+// ============================================
+export type StreamMode = 'facts' | 'transcription';
+export type ParticipantRole = 'doctor' | 'patient' | 'multiple';
+// Live capture: raw PCM16 via AudioWorklet, or MediaRecorder WebM/Opus as a fallback
+export type AudioEncoding = 'pcm16' | 'webm-opus';
+// Channel 1 of a multichannel capture: a shared tab or screen, or a second input device
+export type RemoteAudioSource = 'display' | 'device';
+
+export interface StreamSettings {
+  primaryLanguage: string;
+  outputLocale: string;
+  mode: StreamMode;
+  isDiarization: boolean;
+  isMultichannel: boolean;
+  // Participant role per audio channel (index = channel)
+  roles: ParticipantRole[];
+  audioEncoding: AudioEncoding;
+  // Multichannel only; channel 0 is always the microphone
+  remoteSource: RemoteAudioSource;
+  remoteDeviceId: string;
+}
+
+export const DEFAULT_STREAM_SETTINGS: StreamSettings = {
+  primaryLanguage: 'en',
+  outputLocale: 'en',
+  mode: 'facts',
+  isDiarization: false,
+  isMultichannel: false,
+  roles: ['multiple'],
+  audioEncoding: 'pcm16',
+  remoteSource: 'display',
+  remoteDeviceId: '',
+};
+
+export const STREAM_MODES: { value: StreamMode; label: string }[] = [
+  { value: 'facts', label: 'Transcript + Facts' },
+  { value: 'transcription', label: 'Transcript only' },
+];
+
+export const AUDIO_ENCODINGS: { value: AudioEncoding; label: string }[] = [
+  { value: 'pcm16', label: 'PCM 16 kHz (low latency)' },
+  { value: 'webm-opus', label: 'WebM/Opus (compatibility)' },
+];
+
+export const REMOTE_AUDIO_SOURCES: { value: RemoteAudioSource; label: string }[] = [
+  { value: 'display', label: 'Shared tab or screen audio' },
+  { value: 'device', label: 'Another input device' },
+];
+
+export const PARTICIPANT_ROLES: { value: ParticipantRole; label: string }[] = [
+  { value: 'multiple', label: 'Multiple speakers' },
+  { value: 'doctor', label: 'Clinician' },
+  { value: 'patient', label: 'Patient' },
+];
+
+// ============================================
+// Dictation
+// ============================================
+export interface DictationSettings {
+  primaryLanguage: string;
+  // "comma", "full stop", "colon"... become punctuation marks
+  spokenPunctuation: boolean;
+  // Corti punctuates and capitalizes by itself
+  automaticPunctuation: boolean;
+}
+
+export const DEFAULT_DICTATION_SETTINGS: DictationSettings = {
+  primaryLanguage: 'en',
+  spokenPunctuation: true,
+  automaticPunctuation: false,
+};
+
+// Recordings accepted by "Upload recording" (mirrors the backend allow-list)
+export const ACCEPTED_AUDIO_FILES = '.wav,.mp3,.webm,.ogg,.oga,.opus';
+
+// ============================================
+// Local Storage Keys
+// ============================================
+export const STORAGE_KEYS = {
+  // Per user, so accounts sharing a browser don't inherit each other's choice
+  lastTemplate: (userId: string) => `corti-demo:last-template:${userId}`,
+} as const;
+
 export const SUPPORTED_LANGUAGES = [
   { code: 'en', name: 'English' },
   { code: 'es', name: 'Spanish' },
@@ -0,0 +1,69 @@
+// src/utils/auth.ts
+
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+export interface AuthSession {
+  token: string;
+  user: AuthUser;
+  expiresAt: string;
+}
+
+// Per tab, so closing the tab signs the user out
+const STORAGE_KEY = 'corti-demo-auth';
+
+const listeners = new Set<(session: AuthSession | null) => void>();
+
+export const getAuthSession = (): AuthSession | null => {
+  try {
+    const session = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || 'null') as AuthSession | null;
+    if (session && new Date(session.expiresAt).getTime() > Date.now()) {
+      return session;
+    }
+  } catch {
+    // Unreadable entry; treated as signed out
+  }
+  return null;
+};
+
+export const setAuthSession = (session: AuthSession | null) => {
+  if (session) {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } else {
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+  listeners.forEach(listener => listener(session));
+};
+
+// Returns an unsubscribe function
+export const onAuthChange = (listener: (session: AuthSession | null) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// fetch with the bearer token; a 401 means the token is gone, so sign out
+export const authFetch = async (input: string, init: RequestInit = {}) => {
+  const session = getAuthSession();
+  const headers = new Headers(init.headers);
+  if (session) {
+    headers.set('Authorization', `Bearer ${session.token}`);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401 && session) {
+    setAuthSession(null);
+  }
+  return response;
+};
+
+// Browsers cannot set headers on a WebSocket, so the token goes in the URL
+export const withAuthToken = (url: string) => {
+  const session = getAuthSession();
+  if (!session) return url;
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}token=${encodeURIComponent(session.token)}`;
+};
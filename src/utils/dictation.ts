@@ -0,0 +1,67 @@
+// src/utils/dictation.ts
+
+import type { DictationCommandId } from '../../shared/wsProtocol';
+
+// One change dictation made to the text, so "delete that" can take it back
+interface DictationEdit {
+  before: string;
+  after: string;
+}
+
+// The dictated text and the dictation edits since it was last edited by hand
+export interface DictationDocument {
+  text: string;
+  edits: DictationEdit[];
+}
+
+export type DictationEvent =
+  | { type: 'phrase'; text: string }
+  | { type: 'command'; id: DictationCommandId };
+
+export const EMPTY_DICTATION: DictationDocument = { text: '', edits: [] };
+
+const LINE_BREAKS: Partial<Record<DictationCommandId, string>> = {
+  new_paragraph: '\n\n',
+  new_line: '\n',
+};
+
+// Phrases are separated by a space, except at the start of the text or a line
+const appendPhrase = (text: string, phrase: string) =>
+  text === '' || /\s$/.test(text) ? `${text}${phrase}` : `${text} ${phrase}`;
+
+const withEdit = (doc: DictationDocument, after: string): DictationDocument =>
+  after === doc.text ? doc : { text: after, edits: [...doc.edits, { before: doc.text, after }] };
+
+// Apply a final phrase or a spoken command. Text is always added at the end;
+// "delete that" undoes the last phrase or line break, as long as the text
+// hasn't been edited by hand since.
+export function applyDictation(doc: DictationDocument, event: DictationEvent): DictationDocument {
+  if (event.type === 'phrase') {
+    const phrase = event.text.trim();
+    return phrase ? withEdit(doc, appendPhrase(doc.text, phrase)) : doc;
+  }
+
+  if (event.id === 'delete_that') {
+    const last = doc.edits[doc.edits.length - 1];
+    if (!last || last.after !== doc.text) return doc;
+    return { text: last.before, edits: doc.edits.slice(0, -1) };
+  }
+
+  const lineBreak = LINE_BREAKS[event.id];
+  if (!lineBreak || doc.text === '') return doc;
+  return withEdit(doc, doc.text.replace(/[ \t]+$/, '') + lineBreak);
+}
+
+// Hand edits replace the text and make earlier dictation edits unsafe to undo
+export const editDictation = (text: string): DictationDocument => ({ text, edits: [] });
+
+// Wrap the selection of a markdown textarea, e.g. in ** for bold
+export const wrapSelection = (text: string, start: number, end: number, marker: string) =>
+  `${text.slice(0, start)}${marker}${text.slice(start, end)}${marker}${text.slice(end)}`;
+
+// Prefix every line the selection touches with a bullet
+export const bulletLines = (text: string, start: number, end: number) => {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lines = text.slice(lineStart, end).split('\n').map(line => (line.startsWith('- ') ? line : `- ${line}`));
+  return `${text.slice(0, lineStart)}${lines.join('\n')}${text.slice(end)}`;
+};
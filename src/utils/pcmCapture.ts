@@ -0,0 +1,57 @@
+// src/utils/pcmCapture.ts
+
+import workletUrl from './pcmCaptureWorklet.ts?worker&url';
+
+// Raw audio format for /stream: 16 kHz little-endian PCM16, channels interleaved
+export const PCM_SAMPLE_RATE = 16000;
+// 40 ms per frame: fast interim transcripts without flooding the socket
+export const PCM_FRAME_MS = 40;
+
+export interface PcmCapture {
+  stop: () => void;
+}
+
+interface PcmCaptureOptions {
+  channels: number;
+  onFrame: (frame: ArrayBuffer) => void;
+}
+
+export const isPcmCaptureSupported = () =>
+  typeof AudioContext !== 'undefined' && typeof AudioWorkletNode !== 'undefined';
+
+// Capture `source` as fixed-size PCM16 frames. The context keeps its native
+// rate (browsers ignore getUserMedia sample rate hints); the worklet resamples.
+export async function startPcmCapture(
+  context: AudioContext,
+  source: AudioNode,
+  { channels, onFrame }: PcmCaptureOptions
+): Promise<PcmCapture> {
+  await context.audioWorklet.addModule(workletUrl);
+
+  const node = new AudioWorkletNode(context, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    // Mono mixes every input channel down; multichannel keeps channels apart
+    channelCount: channels,
+    channelCountMode: 'explicit',
+    channelInterpretation: channels === 1 ? 'speakers' : 'discrete',
+    processorOptions: {
+      channels,
+      targetSampleRate: PCM_SAMPLE_RATE,
+      frameSamples: (PCM_SAMPLE_RATE * PCM_FRAME_MS) / 1000,
+    },
+  });
+  node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => onFrame(event.data);
+
+  source.connect(node);
+  // The output is silent; connecting it keeps the node processing in every browser
+  node.connect(context.destination);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect(node);
+      node.disconnect();
+    },
+  };
+}
@@ -0,0 +1,100 @@
+// src/utils/pcmCaptureWorklet.ts
+
+// AudioWorklet processor behind startPcmCapture. Runs on the audio rendering
+// thread: resamples each input channel from the context rate to the target
+// rate, converts to PCM16 and posts fixed-size interleaved frames to the main
+// thread. Channel up/down-mixing is left to the node's channelCount settings.
+
+// AudioWorkletGlobalScope members; not part of the DOM lib
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+interface PcmCaptureOptions {
+  channels: number;
+  targetSampleRate: number;
+  frameSamples: number;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private readonly channels: number;
+  private readonly ratio: number;
+  private readonly frameSamples: number;
+  // One-pole low-pass coefficient, keeps content above the target Nyquist from aliasing
+  private readonly alpha: number;
+  private readonly filtered: number[];
+  // Last filtered input sample per channel, interpolated against the next block
+  private readonly lastSample: number[];
+  // Read position for the next output sample, relative to the current block
+  private position = 0;
+  private frame: Int16Array;
+  private frameIndex = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { channels, targetSampleRate, frameSamples } = options.processorOptions as PcmCaptureOptions;
+    this.channels = channels;
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSamples = frameSamples;
+    this.alpha = this.ratio > 1
+      ? 1 - Math.exp((-2 * Math.PI * 0.45 * targetSampleRate) / sampleRate)
+      : 1;
+    this.filtered = new Array(channels).fill(0);
+    this.lastSample = new Array(channels).fill(0);
+    this.frame = new Int16Array(frameSamples * channels);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    const length = input?.[0]?.length ?? 0;
+    if (length === 0) return true;
+
+    // Low-pass every channel first; a missing channel is silence
+    const blocks = Array.from({ length: this.channels }, (_, c) => {
+      const source = input[c];
+      const block = new Float32Array(length);
+      let y = this.filtered[c];
+      for (let i = 0; i < length; i++) {
+        y += this.alpha * ((source ? source[i] : 0) - y);
+        block[i] = y;
+      }
+      this.filtered[c] = y;
+      return block;
+    });
+
+    // Linear interpolation; index -1 is the previous block's last sample
+    let pos = this.position;
+    while (pos < length - 1) {
+      const i0 = Math.floor(pos);
+      const frac = pos - i0;
+      for (let c = 0; c < this.channels; c++) {
+        const a = i0 < 0 ? this.lastSample[c] : blocks[c][i0];
+        const b = blocks[c][i0 + 1];
+        this.push(a + (b - a) * frac);
+      }
+      pos += this.ratio;
+    }
+    this.position = pos - length;
+    blocks.forEach((block, c) => {
+      this.lastSample[c] = block[length - 1];
+    });
+
+    return true;
+  }
+
+  // Append one interleaved sample; a full frame is transferred to the main thread
+  private push(sample: number) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.frame[this.frameIndex++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (this.frameIndex === this.frame.length) {
+      this.port.postMessage(this.frame.buffer, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frameSamples * this.channels);
+      this.frameIndex = 0;
+    }
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
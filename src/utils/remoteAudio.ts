@@ -0,0 +1,66 @@
+// src/utils/remoteAudio.ts
+
+import type { RemoteAudioSource } from '../constants';
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export const isDisplayAudioSupported = () =>
+  typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.getDisplayMedia === 'function';
+
+// Labels stay empty until the page has been granted microphone access
+export async function listAudioInputs(): Promise<AudioInputDevice[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput' && device.deviceId)
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Input ${i + 1}` }));
+}
+
+// Open the far end of a telehealth visit. Call before any other await:
+// getDisplayMedia needs the click that started the session.
+export async function openRemoteAudio(source: RemoteAudioSource, deviceId: string): Promise<MediaStream> {
+  if (source === 'device') {
+    if (!deviceId) {
+      throw new Error('Choose the input device for channel 1');
+    }
+    // Remote audio is already processed by the call; echo cancellation would
+    // treat it as the echo of the local speakers
+    return navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: { exact: deviceId },
+        channelCount: 1,
+        echoCancellation: false,
+        noiseSuppression: false,
+      },
+    });
+  }
+
+  if (!isDisplayAudioSupported()) {
+    throw new Error('This browser cannot capture tab or screen audio. Choose another input device instead.');
+  }
+  // Browsers only offer audio alongside video; the video track is not needed
+  const stream = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    audio: { echoCancellation: false, noiseSuppression: false },
+  });
+  stream.getVideoTracks().forEach(track => {
+    track.stop();
+    stream.removeTrack(track);
+  });
+  if (stream.getAudioTracks().length === 0) {
+    throw new Error('No audio was shared. Share the tab or screen of the call with "Share audio" turned on.');
+  }
+  return stream;
+}
+
+// One input per channel, in order: sources[0] becomes channel 0 and so on.
+// Each source is mixed down to mono first.
+export function mergeChannels(context: AudioContext, sources: MediaStream[]): ChannelMergerNode {
+  const merger = context.createChannelMerger(sources.length);
+  sources.forEach((stream, channel) => {
+    context.createMediaStreamSource(stream).connect(merger, 0, channel);
+  });
+  return merger;
+}
@@ -0,0 +1,89 @@
+// src/utils/transcript.ts
+
+import type { ParticipantRole } from '../constants';
+
+export interface SpeakerSegment {
+  id: string;
+  text: string;
+  speaker?: string;
+  start?: number;
+  end?: number;
+}
+
+export interface TranscriptTurn<T extends SpeakerSegment = SpeakerSegment> {
+  speaker: string;
+  start?: number;
+  end?: number;
+  segments: T[];
+}
+
+// Used when neither diarization nor multichannel can tell speakers apart
+export const UNATTRIBUTED_SPEAKER = 'speaker';
+
+export const SPEAKER_LABEL_SUGGESTIONS = ['Clinician', 'Patient', 'Relative', 'Interpreter'];
+
+const ROLE_LABELS: Record<ParticipantRole, string | null> = {
+  doctor: 'Clinician',
+  patient: 'Patient',
+  multiple: null,
+};
+
+// Stable key for who spoke a segment: the audio channel on multichannel
+// streams, where each channel is one participant, otherwise the diarized speaker
+export const getSpeakerKey = (
+  segment: { speakerId?: number; channel?: number },
+  isMultichannel: boolean
+): string => {
+  if (isMultichannel && segment.channel !== undefined) {
+    return `channel-${segment.channel}`;
+  }
+  if (segment.speakerId !== undefined && segment.speakerId >= 0) {
+    return `speaker-${segment.speakerId}`;
+  }
+  return UNATTRIBUTED_SPEAKER;
+};
+
+export const getDefaultSpeakerLabel = (key: string): string => {
+  const [kind, index] = key.split('-');
+  if (kind === 'speaker' && index !== undefined) return `Speaker ${Number(index) + 1}`;
+  if (kind === 'channel' && index !== undefined) return `Channel ${Number(index) + 1}`;
+  return 'Speaker';
+};
+
+export const getSpeakerLabel = (key: string | undefined, labels: Record<string, string>): string => {
+  const speaker = key || UNATTRIBUTED_SPEAKER;
+  return labels[speaker]?.trim() || getDefaultSpeakerLabel(speaker);
+};
+
+// Seed channel labels from the participant roles chosen for a multichannel session
+export const labelsFromRoles = (roles: ParticipantRole[]): Record<string, string> =>
+  roles.reduce((acc, role, channel) => {
+    const label = ROLE_LABELS[role];
+    if (label) acc[`channel-${channel}`] = label;
+    return acc;
+  }, {} as Record<string, string>);
+
+// Group consecutive segments from the same speaker into conversation turns
+export const groupIntoTurns = <T extends SpeakerSegment>(segments: T[]): TranscriptTurn<T>[] =>
+  segments.reduce((turns, segment) => {
+    const speaker = segment.speaker || UNATTRIBUTED_SPEAKER;
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === speaker) {
+      last.segments.push(segment);
+      last.end = segment.end ?? last.end;
+    } else {
+      turns.push({ speaker, start: segment.start, end: segment.end, segments: [segment] });
+    }
+    return turns;
+  }, [] as TranscriptTurn<T>[]);
+
+// Whether a transcript carries any speaker attribution worth showing
+export const hasSpeakerAttribution = (
+  segments: SpeakerSegment[],
+  labels: Record<string, string>
+): boolean =>
+  Object.keys(labels).length > 0 ||
+  segments.some(s => (s.speaker || UNATTRIBUTED_SPEAKER) !== UNATTRIBUTED_SPEAKER);
+
+export const formatTimestamp = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;